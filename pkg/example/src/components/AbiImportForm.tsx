@@ -0,0 +1,133 @@
+/**
+ * Import of a JSON ABI or Hardhat/Foundry artifact for a contract address
+ */
+
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import { ContractABI } from "../lib/contract-types";
+import { ABIParser } from "../lib/abi-parser";
+import { contractRegistry } from "../lib/contract-registry";
+
+interface AbiImportFormProps {
+  defaultAddress?: string;
+  onImported: (contract: ContractABI) => void;
+  onCancel?: () => void;
+}
+
+export const AbiImportForm: React.FC<AbiImportFormProps> = ({
+  defaultAddress = "",
+  onImported,
+  onCancel,
+}) => {
+  const [address, setAddress] = useState(defaultAddress);
+  const [name, setName] = useState("");
+  const [abiInput, setAbiInput] = useState("");
+  const [error, setError] = useState("");
+
+  const handleFileLoad = async (file: File) => {
+    const text = await file.text();
+    setAbiInput(text);
+    setError("");
+
+    // Artifacts carry the contract name
+    if (!name) {
+      try {
+        const artifact = JSON.parse(text);
+        setName(artifact.contractName || file.name.replace(/\.json$/, ""));
+      } catch (error) {
+        setName(file.name.replace(/\.json$/, ""));
+      }
+    }
+  };
+
+  const handleImport = () => {
+    setError("");
+
+    if (!ethers.isAddress(address)) {
+      setError("Invalid contract address");
+      return;
+    }
+
+    try {
+      const abi = ABIParser.parseAbiJson(abiInput);
+      const contract = contractRegistry.addUserContract(
+        ethers.getAddress(address),
+        name.trim() || `Custom Contract (${address.slice(0, 6)}...)`,
+        abi,
+        ABIParser.parseNatSpec(abiInput) || undefined
+      );
+      setAbiInput("");
+      onImported(contract);
+    } catch (error: any) {
+      setError(error.message || "ABI import failed");
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <h4 className="font-medium text-gray-900">Import ABI</h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={address}
+          onChange={(e) => setAddress(e.target.value.trim())}
+          placeholder="Contract address 0x..."
+          className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Contract name"
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+        />
+      </div>
+
+      <textarea
+        value={abiInput}
+        onChange={(e) => setAbiInput(e.target.value)}
+        rows={6}
+        placeholder='[{"type":"function","name":"transfer",...}] or Hardhat/Foundry artifact JSON'
+        className="w-full p-2 border border-gray-300 rounded-lg font-mono text-xs"
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleImport}
+          disabled={!address || !abiInput.trim()}
+          className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 disabled:opacity-50"
+        >
+          Import ABI
+        </button>
+        <label className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-100 cursor-pointer">
+          Upload JSON
+          <input
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) =>
+              e.target.files?.[0] && handleFileLoad(e.target.files[0])
+            }
+          />
+        </label>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 text-sm hover:text-gray-800"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Imported ABIs are stored in this browser for the current network and
+        take precedence over the Safe Transaction Service list. NatSpec from
+        Foundry artifacts or solc output is shown as parameter hints.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+/**
+ * Queue of calls combined into one MultiSend Safe transaction
+ */
+
+import React from "react";
+import { ethers } from "ethers";
+import { UniversalFunctionCall } from "../lib/onchain";
+import { BatchedCallDetails } from "../lib/offchain";
+import { formatAddress } from "../lib/safe-common";
+
+export interface BatchCallEntry {
+  label: string;
+  functionCall: UniversalFunctionCall;
+}
+
+interface BatchBuilderProps {
+  calls: BatchCallEntry[];
+  onRemove: (index: number) => void;
+  onClear: () => void;
+  onCreateBatch: () => void;
+  loading?: boolean;
+}
+
+export const BatchBuilder: React.FC<BatchBuilderProps> = ({
+  calls,
+  onRemove,
+  onClear,
+  onCreateBatch,
+  loading = false,
+}) => {
+  if (calls.length === 0) {
+    return null;
+  }
+
+  const totalValue = calls.reduce(
+    (sum, entry) => sum + (entry.functionCall.value || 0n),
+    0n
+  );
+
+  return (
+    <div className="mt-6 p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-indigo-900">
+          Batch ({calls.length} {calls.length === 1 ? "call" : "calls"})
+        </h3>
+        <button
+          onClick={onClear}
+          className="text-xs text-indigo-600 hover:text-indigo-800 underline"
+        >
+          Clear batch
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {calls.map((entry, index) => (
+          <div
+            key={index}
+            className="flex items-center justify-between p-2 bg-white border border-indigo-100 rounded"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">
+                {index + 1}. {entry.label}
+              </div>
+              <div className="text-xs text-gray-500 font-mono truncate">
+                {formatAddress(entry.functionCall.contractAddress)} ·{" "}
+                {entry.functionCall.functionSignature}
+                {(entry.functionCall.value || 0n) > 0n && (
+                  <span className="ml-2 text-green-600">
+                    {ethers.formatEther(entry.functionCall.value || 0n)} ETH
+                  </span>
+                )}
+              </div>
+            </div>
+            <button
+              onClick={() => onRemove(index)}
+              className="ml-3 px-2 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200 text-sm"
+              title="Remove call"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {totalValue > 0n && (
+        <p className="mt-3 text-sm text-indigo-800">
+          Total value: {ethers.formatEther(totalValue)} ETH
+        </p>
+      )}
+
+      <button
+        onClick={onCreateBatch}
+        disabled={loading}
+        className="mt-4 w-full px-6 py-3 rounded-lg font-medium transition-colors bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+      >
+        {loading
+          ? "Creating batch hash..."
+          : "📦 Create Batch Transaction Hash"}
+      </button>
+
+      <p className="mt-2 text-xs text-indigo-700">
+        All calls are executed atomically through MultiSendCallOnly with a
+        single safeTxHash and one round of signatures.
+      </p>
+    </div>
+  );
+};
+
+interface BatchedCallsListProps {
+  calls: BatchedCallDetails[];
+}
+
+// Calls contained in a created batch transaction
+export const BatchedCallsList: React.FC<BatchedCallsListProps> = ({
+  calls,
+}) => (
+  <div>
+    <label className="font-medium text-gray-700">
+      Batched Calls ({calls.length}):
+    </label>
+    <div className="mt-1 space-y-1">
+      {calls.map((call, index) => (
+        <div
+          key={index}
+          className="p-2 bg-white border rounded font-mono text-xs break-all"
+        >
+          {index + 1}. {formatAddress(call.to)} ·{" "}
+          {call.functionSignature || "value transfer"}
+          {call.value !== "0.0" && (
+            <span className="ml-2 text-green-600">{call.value} ETH</span>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
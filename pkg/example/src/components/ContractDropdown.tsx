@@ -2,9 +2,10 @@
  * Dropdown for selecting contract from available ABIs
  */
 
-import React, { useState, useEffect } from "react";
-import { ContractABI } from "../lib/contract-types";
+import React, { useState, useEffect, useMemo } from "react";
+import { ContractABI, ContractSource } from "../lib/contract-types";
 import { contractRegistry } from "../lib/contract-registry";
+import { PROXY_KIND_LABELS } from "../lib/proxy-detector";
 
 interface ContractDropdownProps {
   onContractSelect: (contract: ContractABI | null) => void;
@@ -12,17 +13,58 @@ interface ContractDropdownProps {
   placeholder?: string;
   isLoading?: boolean;
   error?: string | null;
+  refreshKey?: number; // Changes when contracts are added to registry
 }
 
+const SOURCE_BADGES: Record<
+  ContractSource,
+  { label: string; className: string }
+> = {
+  sts: { label: "STS", className: "bg-blue-100 text-blue-700" },
+  user: { label: "Imported", className: "bg-amber-100 text-amber-700" },
+};
+
+// Large STS lists are cut to keep rendering fast, search narrows them down
+const MAX_VISIBLE_CONTRACTS = 100;
+
+export const ContractSourceBadge: React.FC<{ source?: ContractSource }> = ({
+  source,
+}) =>
+  source ? (
+    <span
+      className={`ml-2 px-1.5 py-0.5 rounded text-xs font-normal ${SOURCE_BADGES[source].className}`}
+    >
+      {SOURCE_BADGES[source].label}
+    </span>
+  ) : null;
+
 export const ContractDropdown: React.FC<ContractDropdownProps> = ({
   onContractSelect,
   selectedContract,
   placeholder = "Select contract...",
   isLoading = false,
   error = null,
+  refreshKey = 0,
 }) => {
   const [contracts, setContracts] = useState<ContractABI[]>([]);
   const [isOpen, setIsOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+
+  // Matches name, address or any function name of the contract
+  const filteredContracts = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return contracts;
+
+    return contracts.filter(
+      (contract) =>
+        contract.name.toLowerCase().includes(query) ||
+        contract.address.toLowerCase().includes(query) ||
+        contract.parsedFunctions.some((func) =>
+          func.name.toLowerCase().includes(query)
+        )
+    );
+  }, [contracts, searchQuery]);
+  const visibleContracts = filteredContracts.slice(0, MAX_VISIBLE_CONTRACTS);
 
   useEffect(() => {
     // Load all available contracts
@@ -45,11 +87,12 @@ export const ContractDropdown: React.FC<ContractDropdownProps> = ({
     }, 2000);
 
     return () => clearInterval(interval);
-  }, [isLoading]);
+  }, [isLoading, refreshKey]);
 
   const handleContractSelect = (contract: ContractABI) => {
     onContractSelect(contract);
     setIsOpen(false);
+    setSearchQuery("");
     console.log("Contract selected:", contract.name);
   };
 
@@ -76,10 +119,13 @@ export const ContractDropdown: React.FC<ContractDropdownProps> = ({
           <span className="block truncate">
             {isLoading ? (
               <span className="text-gray-500">Loading contracts...</span>
-            ) : error ? (
-              <span className="text-red-500">Loading error</span>
             ) : selectedContract ? (
-              <span className="font-medium">{selectedContract.name}</span>
+              <span className="font-medium">
+                {selectedContract.name}
+                <ContractSourceBadge source={selectedContract.source} />
+              </span>
+            ) : error && contracts.length === 0 ? (
+              <span className="text-red-500">Loading error</span>
             ) : (
               <span className="text-gray-500">{placeholder}</span>
             )}
@@ -100,7 +146,7 @@ export const ContractDropdown: React.FC<ContractDropdownProps> = ({
           </span>
         </button>
 
-        {isOpen && !isLoading && !error && (
+        {isOpen && !isLoading && (!error || contracts.length > 0) && (
           <div className="absolute z-10 mt-1 w-full bg-white shadow-lg max-h-60 rounded-md py-1 text-base ring-1 ring-black ring-opacity-5 overflow-auto focus:outline-none sm:text-sm">
             {selectedContract && (
               <div
@@ -111,14 +157,29 @@ export const ContractDropdown: React.FC<ContractDropdownProps> = ({
               </div>
             )}
 
-            {contracts.length === 0 ? (
+            {contracts.length > 0 && (
+              <div className="sticky top-0 bg-white px-2 py-1 border-b border-gray-100">
+                <input
+                  type="text"
+                  autoFocus
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder={`Search ${contracts.length} contracts by name, address or function...`}
+                  className="w-full p-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-purple-500"
+                />
+              </div>
+            )}
+
+            {filteredContracts.length === 0 ? (
               <div className="cursor-default select-none relative py-2 pl-3 pr-9 text-gray-500">
                 <span className="block truncate text-sm">
-                  No available contracts
+                  {contracts.length === 0
+                    ? "No available contracts"
+                    : `No contracts found for "${searchQuery}"`}
                 </span>
               </div>
             ) : (
-              contracts.map((contract) => (
+              visibleContracts.map((contract) => (
                 <div
                   key={contract.address}
                   onClick={() => handleContractSelect(contract)}
@@ -132,6 +193,7 @@ export const ContractDropdown: React.FC<ContractDropdownProps> = ({
                     <span className="font-medium text-gray-900 block truncate">
                       {contract.name}
                     </span>
+                    <ContractSourceBadge source={contract.source} />
                   </div>
                   <p className="text-xs text-gray-400 font-mono mt-1">
                     {contract.address}
@@ -156,10 +218,41 @@ export const ContractDropdown: React.FC<ContractDropdownProps> = ({
                 </div>
               ))
             )}
+
+            {filteredContracts.length > visibleContracts.length && (
+              <div className="py-2 pl-3 text-xs text-gray-500 border-t border-gray-100">
+                Showing {visibleContracts.length} of {filteredContracts.length},
+                refine the search to see more
+              </div>
+            )}
           </div>
         )}
       </div>
 
+      {selectedContract?.proxy && (
+        <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded text-xs text-blue-800 space-y-1">
+          <div>
+            <span className="font-medium">Proxy:</span>{" "}
+            <span className="font-mono">{selectedContract.address}</span>
+          </div>
+          <div>
+            <span className="font-medium">Implementation:</span>{" "}
+            <span className="font-mono">
+              {selectedContract.proxy.implementation}
+            </span>
+            <span className="ml-2 text-blue-600">
+              ({PROXY_KIND_LABELS[selectedContract.proxy.kind]})
+            </span>
+          </div>
+        </div>
+      )}
+
+      {(selectedContract?.description || selectedContract?.natspec?.notice) && (
+        <p className="mt-2 text-xs text-gray-600">
+          {selectedContract.description || selectedContract.natspec?.notice}
+        </p>
+      )}
+
       {selectedContract && (
         <div className="mt-2 text-xs text-gray-600">
           <span>Available functions: </span>
@@ -169,6 +262,18 @@ export const ContractDropdown: React.FC<ContractDropdownProps> = ({
                 .length
             }
           </span>
+          {selectedContract.source === "user" && (
+            <button
+              onClick={() => {
+                contractRegistry.removeUserContract(selectedContract.address);
+                setContracts(contractRegistry.getAllContracts());
+                clearSelection();
+              }}
+              className="ml-3 text-red-600 hover:text-red-800 underline"
+            >
+              Remove imported ABI
+            </button>
+          )}
         </div>
       )}
     </div>
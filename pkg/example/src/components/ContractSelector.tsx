@@ -5,7 +5,10 @@
 import React, { useState, useEffect } from "react";
 import { ContractABI } from "../lib/contract-types";
 import { contractRegistry } from "../lib/contract-registry";
+import { PROXY_KIND_LABELS } from "../lib/proxy-detector";
 import { ContractInfo } from "./TokenInfo";
+import { AbiImportForm } from "./AbiImportForm";
+import { ContractSourceBadge } from "./ContractDropdown";
 import SafeOnChain from "../lib/onchain";
 
 interface ContractSelectorProps {
@@ -39,12 +42,22 @@ export const ContractSelector: React.FC<ContractSelectorProps> = ({
       contract.address.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const handlePredefinedSelect = (contract: ContractABI) => {
+  const handlePredefinedSelect = async (contract: ContractABI) => {
     console.log("Predefined contract selected:", contract.name);
-    onContractSelect(contract);
+    onContractSelect(await resolveContract(contract));
   };
 
-  const handleCustomAddressChange = (address: string) => {
+  // Proxies get the implementation ABI merged in
+  const resolveContract = async (contract: ContractABI) => {
+    try {
+      return await contractRegistry.resolveProxy(contract);
+    } catch (error) {
+      console.warn("Proxy detection failed:", error);
+      return contract;
+    }
+  };
+
+  const handleCustomAddressChange = async (address: string) => {
     setCustomAddress(address);
 
     if (address && /^0x[a-fA-F0-9]{40}$/.test(address)) {
@@ -52,7 +65,15 @@ export const ContractSelector: React.FC<ContractSelectorProps> = ({
       const existingContract = contractRegistry.getContract(address);
       if (existingContract) {
         console.log("Existing contract found:", existingContract.name);
-        onContractSelect(existingContract);
+        onContractSelect(await resolveContract(existingContract));
+        return;
+      }
+
+      const loadedContract = await contractRegistry
+        .loadContract(address)
+        .catch(() => null);
+      if (loadedContract) {
+        onContractSelect(loadedContract);
       } else {
         console.log("Contract not found in registry, creating temporary");
         // Create temporary contract for custom address
@@ -128,6 +149,7 @@ export const ContractSelector: React.FC<ContractSelectorProps> = ({
                   <div className="flex-1">
                     <h5 className="font-medium text-gray-900">
                       {contract.name}
+                      <ContractSourceBadge source={contract.source} />
                     </h5>
                     <p className="text-xs text-gray-500 mt-2 font-mono">
                       {contract.address}
@@ -181,33 +203,46 @@ export const ContractSelector: React.FC<ContractSelectorProps> = ({
             )}
           </div>
 
-          {selectedContract && mode === "custom" && (
-            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
-              <div className="flex">
-                <div className="flex-shrink-0">
-                  <svg
-                    className="h-5 w-5 text-yellow-400"
-                    viewBox="0 0 20 20"
-                    fill="currentColor"
-                  >
-                    <path
-                      fillRule="evenodd"
-                      d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
-                      clipRule="evenodd"
-                    />
-                  </svg>
-                </div>
-                <div className="ml-3">
-                  <h3 className="text-sm font-medium text-yellow-800">
-                    Custom Contract
-                  </h3>
-                  <p className="mt-1 text-sm text-yellow-700">
-                    ABI for this contract is not loaded. You can only use manual
-                    function input.
-                  </p>
+          {selectedContract &&
+            mode === "custom" &&
+            selectedContract.parsedFunctions.length === 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <svg
+                      className="h-5 w-5 text-yellow-400"
+                      viewBox="0 0 20 20"
+                      fill="currentColor"
+                    >
+                      <path
+                        fillRule="evenodd"
+                        d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
+                        clipRule="evenodd"
+                      />
+                    </svg>
+                  </div>
+                  <div className="ml-3">
+                    <h3 className="text-sm font-medium text-yellow-800">
+                      Custom Contract
+                    </h3>
+                    <p className="mt-1 text-sm text-yellow-700">
+                      ABI for this contract is not loaded. You can only use
+                      manual function input or import the ABI below.
+                    </p>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
+
+          {/^0x[a-fA-F0-9]{40}$/.test(customAddress) && (
+            <AbiImportForm
+              key={customAddress}
+              defaultAddress={customAddress}
+              onImported={async (contract) => {
+                setContracts(contractRegistry.getAllContracts());
+                onContractSelect(await resolveContract(contract));
+              }}
+            />
           )}
         </div>
       )}
@@ -233,10 +268,18 @@ export const ContractSelector: React.FC<ContractSelectorProps> = ({
               <div className="ml-3">
                 <h3 className="text-sm font-medium text-green-800">
                   Contract selected: {selectedContract.name}
+                  <ContractSourceBadge source={selectedContract.source} />
                 </h3>
                 <p className="mt-1 text-sm text-green-700">
-                  Address: {selectedContract.address}
+                  {selectedContract.proxy ? "Proxy" : "Address"}:{" "}
+                  {selectedContract.address}
                 </p>
+                {selectedContract.proxy && (
+                  <p className="mt-1 text-sm text-green-700">
+                    Implementation: {selectedContract.proxy.implementation} (
+                    {PROXY_KIND_LABELS[selectedContract.proxy.kind]})
+                  </p>
+                )}
                 {contractRegistry.hasContract(selectedContract.address) && (
                   <p className="mt-1 text-sm text-green-700">
                     Available functions:{" "}
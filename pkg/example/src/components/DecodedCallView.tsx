@@ -0,0 +1,146 @@
+/**
+ * Function name and named arguments of decoded calldata
+ */
+
+import React from "react";
+import { ethers } from "ethers";
+import {
+  DecodedArgument,
+  DecodedCall,
+  DecodingSource,
+} from "../lib/calldata-decoder";
+import { formatAddress } from "../lib/safe-common";
+
+interface DecodedCallViewProps {
+  call: DecodedCall;
+  index?: number; // Position inside a MultiSend batch
+}
+
+const SOURCE_LABELS: Record<DecodingSource, string> = {
+  registry: "Contract ABI",
+  sts: "Transaction Service",
+  selector: "Selector match",
+};
+
+const ArgumentList: React.FC<{ args: DecodedArgument[] }> = ({ args }) => (
+  <div className="space-y-1">
+    {args.map((arg, argIndex) => (
+      <div key={argIndex} className="flex gap-2">
+        <span className="shrink-0 text-gray-700" title={arg.description}>
+          {arg.name}{" "}
+          <span className="text-gray-400 font-mono">({arg.type})</span>:
+        </span>
+        <div className="min-w-0">
+          <span className="font-mono break-all text-gray-900">{arg.value}</span>
+          {arg.tokenValue && (
+            <span className="ml-2 font-medium text-green-700">
+              ({arg.tokenValue})
+            </span>
+          )}
+          {arg.unit && (
+            <span className="ml-1 px-1 bg-blue-50 text-blue-700 rounded">
+              {arg.unit}
+            </span>
+          )}
+          {arg.description && (
+            <div className="text-gray-500">{arg.description}</div>
+          )}
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export const DecodedCallView: React.FC<DecodedCallViewProps> = ({
+  call,
+  index,
+}) => {
+  const hasValue = BigInt(call.value) > 0n;
+
+  return (
+    <div className="p-2 bg-white border rounded text-xs space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          {index !== undefined && (
+            <span className="mr-2 text-gray-400">#{index + 1}</span>
+          )}
+          <span className="font-mono font-semibold text-gray-900 break-all">
+            {call.selector
+              ? call.signature || `Unknown function ${call.selector}`
+              : "Value transfer"}
+          </span>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          {call.operation === 1 && (
+            <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded">
+              DelegateCall
+            </span>
+          )}
+          {call.source && (
+            <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded">
+              {SOURCE_LABELS[call.source]}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {(call.docs?.notice || call.docs?.details) && (
+        <p className="text-gray-600 italic">
+          {call.docs.notice || call.docs.details}
+        </p>
+      )}
+
+      <div className="text-gray-600">
+        <span className="font-medium">To:</span>{" "}
+        {call.contractName ? `${call.contractName} ` : ""}
+        <span className="font-mono" title={call.to}>
+          {formatAddress(call.to)}
+        </span>
+        {hasValue && (
+          <span className="ml-2 text-green-600">
+            {ethers.formatEther(call.value)} ETH
+          </span>
+        )}
+      </div>
+
+      {call.candidates ? (
+        <div className="p-2 bg-yellow-50 border border-yellow-200 rounded space-y-2">
+          <p className="font-medium text-yellow-800">
+            Ambiguous selector: {call.candidates.length} signatures decode this
+            data
+          </p>
+          {call.candidates.map((candidate, candidateIndex) => (
+            <div key={candidateIndex} className="space-y-1">
+              <div className="font-mono font-semibold text-gray-900 break-all">
+                {candidate.signature}
+              </div>
+              <ArgumentList args={candidate.args} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        call.args.length > 0 &&
+        !call.nestedCalls && <ArgumentList args={call.args} />
+      )}
+
+      {call.selector && !call.signature && (
+        <p className="text-yellow-700">
+          No ABI found for this selector. Check the raw data carefully before
+          signing.
+        </p>
+      )}
+
+      {call.nestedCalls && (
+        <div className="pl-3 border-l-2 border-indigo-200 space-y-2">
+          {call.nestedCalls.map((nested, nestedIndex) => (
+            <DecodedCallView
+              key={nestedIndex}
+              call={nested}
+              index={nestedIndex}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
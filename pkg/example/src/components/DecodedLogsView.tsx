@@ -0,0 +1,62 @@
+/**
+ * Event logs decoded into names and arguments, raw topics when unknown
+ */
+
+import React from "react";
+import { DecodedLog } from "../lib/event-decoder";
+import { formatAddress } from "../lib/safe-common";
+
+interface DecodedLogsViewProps {
+  logs: DecodedLog[];
+}
+
+export const DecodedLogsView: React.FC<DecodedLogsViewProps> = ({ logs }) => {
+  if (logs.length === 0) {
+    return <div className="text-gray-500">No events emitted</div>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {logs.map((log, index) => (
+        <div
+          key={index}
+          className="p-2 bg-white border rounded text-xs space-y-1"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono font-semibold text-gray-900 break-all">
+              {log.signature || `Unknown event ${log.topics[0] || ""}`}
+            </span>
+            <span className="shrink-0 text-gray-500" title={log.address}>
+              {log.contractName
+                ? `${log.contractName} (${formatAddress(log.address)})`
+                : formatAddress(log.address)}
+            </span>
+          </div>
+
+          {log.name ? (
+            log.args.map((arg, argIndex) => (
+              <div key={argIndex} className="flex gap-2">
+                <span className="shrink-0 text-gray-700">
+                  {arg.name}{" "}
+                  <span className="text-gray-400 font-mono">({arg.type})</span>:
+                </span>
+                <span className="font-mono break-all text-gray-900">
+                  {arg.value}
+                </span>
+              </div>
+            ))
+          ) : (
+            <div className="font-mono break-all text-gray-500">
+              {log.topics.slice(1).map((topic, topicIndex) => (
+                <div key={topicIndex}>
+                  [{topicIndex + 1}] {topic}
+                </div>
+              ))}
+              {log.data !== "0x" && <div>data: {log.data}</div>}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -5,6 +5,7 @@
 import React, { useState, useEffect } from "react";
 import { ParsedFunction } from "../lib/contract-types";
 import { contractRegistry } from "../lib/contract-registry";
+import { ABIParser } from "../lib/abi-parser";
 
 interface FunctionDropdownProps {
   contractAddress: string | null;
@@ -59,10 +60,14 @@ export const FunctionDropdown: React.FC<FunctionDropdownProps> = ({
     onFunctionSelect(null);
   }, [contractAddress, showOnlyPayable, onFunctionSelect]);
 
+  // Same name with different parameters, only the signature tells them apart
+  const isOverloaded = (func: ParsedFunction) =>
+    functions.filter((f) => f.name === func.name).length > 1;
+
   const handleFunctionSelect = (func: ParsedFunction) => {
     onFunctionSelect(func);
     setIsOpen(false);
-    console.log("Function selected:", func.name);
+    console.log("Function selected:", func.signature);
   };
 
   const clearSelection = () => {
@@ -122,7 +127,11 @@ export const FunctionDropdown: React.FC<FunctionDropdownProps> = ({
           <span className="block truncate">
             {selectedFunction ? (
               <div className="flex items-center">
-                <span className="font-medium">{selectedFunction.name}</span>
+                <span className="font-medium">
+                  {isOverloaded(selectedFunction)
+                    ? selectedFunction.signature
+                    : selectedFunction.name}
+                </span>
                 {selectedFunction.payable && (
                   <span className="ml-2 text-xs text-green-600 bg-green-100 px-2 py-1 rounded">
                     payable
@@ -185,11 +194,24 @@ export const FunctionDropdown: React.FC<FunctionDropdownProps> = ({
                   <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
                     {func.stateMutability}
                   </span>
+                  {isOverloaded(func) && (
+                    <span className="ml-2 text-xs text-orange-700 bg-orange-100 px-2 py-1 rounded">
+                      overloaded
+                    </span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500 font-mono">
+                    {func.selector}
+                  </span>
                 </div>
 
                 <p className="text-xs text-gray-400 font-mono bg-gray-50 p-1 rounded">
                   {func.signature}
                 </p>
+                {func.docs?.notice && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    {func.docs.notice}
+                  </p>
+                )}
 
                 {func.inputs.length > 0 && (
                   <div className="mt-2">
@@ -200,7 +222,7 @@ export const FunctionDropdown: React.FC<FunctionDropdownProps> = ({
                       {func.inputs.slice(0, 3).map((input, index) => (
                         <div key={index} className="text-xs text-gray-500 flex">
                           <span className="font-mono bg-gray-100 px-1 rounded mr-2 min-w-0">
-                            {input.type}
+                            {ABIParser.formatType(input)}
                           </span>
                           <span className="truncate">
                             {input.name || `param${index}`}
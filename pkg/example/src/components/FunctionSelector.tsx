@@ -5,17 +5,30 @@
 import React, { useState, useEffect } from "react";
 import { ParsedFunction } from "../lib/contract-types";
 import { contractRegistry } from "../lib/contract-registry";
+import { ABIParser } from "../lib/abi-parser";
+import SafeOnChain from "../lib/onchain";
+import { ReadFunctionCall } from "./ReadFunctionCall";
 
 interface FunctionSelectorProps {
   contractAddress: string | null;
   onFunctionSelect: (func: ParsedFunction | null) => void;
   selectedFunction: ParsedFunction | null;
+  // "call" lists view/pure functions and runs them directly through provider
+  mode?: "propose" | "call";
+  safeOnChain?: SafeOnChain | null;
+  safeAddress?: string;
 }
 
+const isReadOnly = (func: ParsedFunction) =>
+  func.stateMutability === "view" || func.stateMutability === "pure";
+
 export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
   contractAddress,
   onFunctionSelect,
   selectedFunction,
+  mode = "propose",
+  safeOnChain,
+  safeAddress,
 }) => {
   const [functions, setFunctions] = useState<ParsedFunction[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
@@ -25,8 +38,9 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
 
   useEffect(() => {
     if (contractAddress) {
-      const contractFunctions =
-        contractRegistry.getContractFunctions(contractAddress);
+      const contractFunctions = contractRegistry
+        .getContractFunctions(contractAddress)
+        .filter((func) => mode !== "call" || isReadOnly(func));
       setFunctions(contractFunctions);
       console.log(
         `Functions loaded for contract ${contractAddress}:`,
@@ -38,13 +52,14 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
 
     // Reset selected function when contract changes
     onFunctionSelect(null);
-  }, [contractAddress, onFunctionSelect]);
+  }, [contractAddress, onFunctionSelect, mode]);
 
   // Filter functions
   const filteredFunctions = functions.filter((func) => {
     const matchesSearch =
       func.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      func.signature.toLowerCase().includes(searchQuery.toLowerCase());
+      func.signature.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      func.selector.includes(searchQuery.toLowerCase());
 
     const matchesPayable =
       filterPayable === "all" ||
@@ -55,7 +70,7 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
   });
 
   const handleFunctionSelect = (func: ParsedFunction) => {
-    console.log("Function selected:", func.name);
+    console.log("Function selected:", func.signature);
     onFunctionSelect(func);
   };
 
@@ -99,10 +114,18 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
               d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z"
             />
           </svg>
-          <p className="text-yellow-800 font-medium">ABI not loaded</p>
-          <p className="text-yellow-700 text-sm mt-1">
-            This contract has no available functions. Use manual input.
-          </p>
+          {mode === "call" ? (
+            <p className="text-yellow-800 font-medium">
+              No view or pure functions in this contract
+            </p>
+          ) : (
+            <>
+              <p className="text-yellow-800 font-medium">ABI not loaded</p>
+              <p className="text-yellow-700 text-sm mt-1">
+                This contract has no available functions. Use manual input.
+              </p>
+            </>
+          )}
         </div>
       </div>
     );
@@ -112,7 +135,7 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-gray-900">
-          Function Selection
+          {mode === "call" ? "Read Contract" : "Function Selection"}
         </h3>
         <div className="text-sm text-gray-500">
           Found: {filteredFunctions.length} of {functions.length}
@@ -130,38 +153,40 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
             className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
           />
         </div>
-        <div className="flex space-x-2">
-          <button
-            onClick={() => setFilterPayable("all")}
-            className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-              filterPayable === "all"
-                ? "bg-purple-100 text-purple-700"
-                : "bg-gray-100 text-gray-600 hover:bg-gray-200"
-            }`}
-          >
-            All
-          </button>
-          <button
-            onClick={() => setFilterPayable("payable")}
-            className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-              filterPayable === "payable"
-                ? "bg-green-100 text-green-700"
-                : "bg-gray-100 text-gray-600 hover:bg-gray-200"
-            }`}
-          >
-            💰 Payable
-          </button>
-          <button
-            onClick={() => setFilterPayable("nonpayable")}
-            className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-              filterPayable === "nonpayable"
-                ? "bg-blue-100 text-blue-700"
-                : "bg-gray-100 text-gray-600 hover:bg-gray-200"
-            }`}
-          >
-            Regular
-          </button>
-        </div>
+        {mode === "propose" && (
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setFilterPayable("all")}
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                filterPayable === "all"
+                  ? "bg-purple-100 text-purple-700"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              All
+            </button>
+            <button
+              onClick={() => setFilterPayable("payable")}
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                filterPayable === "payable"
+                  ? "bg-green-100 text-green-700"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              💰 Payable
+            </button>
+            <button
+              onClick={() => setFilterPayable("nonpayable")}
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                filterPayable === "nonpayable"
+                  ? "bg-blue-100 text-blue-700"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              Regular
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Function list */}
@@ -188,6 +213,9 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
                   <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
                     {func.stateMutability}
                   </span>
+                  <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-mono bg-gray-100 text-gray-600">
+                    {func.selector}
+                  </span>
                 </div>
                 <p className="text-xs text-gray-500 mt-2 font-mono bg-gray-50 p-2 rounded">
                   {func.signature}
@@ -201,7 +229,7 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
                       {func.inputs.map((input, index) => (
                         <div key={index} className="text-xs text-gray-600 flex">
                           <span className="font-mono bg-gray-100 px-1 rounded mr-2 min-w-0">
-                            {input.type}
+                            {ABIParser.formatType(input)}
                           </span>
                           <span className="font-medium">
                             {input.name || `param${index}`}
@@ -238,8 +266,19 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
         </div>
       )}
 
+      {/* Direct call of the selected read-only function */}
+      {mode === "call" && selectedFunction && safeOnChain && (
+        <ReadFunctionCall
+          key={selectedFunction.selector}
+          contractAddress={contractAddress}
+          selectedFunction={selectedFunction}
+          safeOnChain={safeOnChain}
+          safeAddress={safeAddress}
+        />
+      )}
+
       {/* Selected function information */}
-      {selectedFunction && (
+      {mode === "propose" && selectedFunction && (
         <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
           <div className="flex">
             <div className="flex-shrink-0">
@@ -257,10 +296,11 @@ export const FunctionSelector: React.FC<FunctionSelectorProps> = ({
             </div>
             <div className="ml-3">
               <h3 className="text-sm font-medium text-green-800">
-                Function selected: {selectedFunction.name}
+                Function selected: {selectedFunction.signature}
               </h3>
               <p className="mt-1 text-sm text-green-700">
-                Parameters: {selectedFunction.inputs.length}
+                Selector: {selectedFunction.selector} | Parameters:{" "}
+                {selectedFunction.inputs.length}
                 {selectedFunction.payable && " | Accepts ETH"}
               </p>
             </div>
@@ -0,0 +1,219 @@
+/**
+ * Advanced gas and refund fields of a Safe transaction
+ */
+
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import { SafeTransaction } from "@safe-global/types-kit";
+import { SafeGasOptions } from "../lib/onchain";
+import { formatAddress } from "../lib/safe-common";
+
+interface GasRefundSettingsProps {
+  value: SafeGasOptions;
+  onChange: (options: SafeGasOptions) => void;
+}
+
+const INTEGER_PATTERN = /^\d*$/;
+
+export const GasRefundSettings: React.FC<GasRefundSettingsProps> = ({
+  value,
+  onChange,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const isRefund = BigInt(value.gasPrice || "0") > 0n;
+
+  const updateNumber = (
+    field: "safeTxGas" | "baseGas" | "gasPrice",
+    input: string
+  ) => {
+    const trimmed = input.trim();
+    if (!INTEGER_PATTERN.test(trimmed)) return;
+    onChange({ ...value, [field]: trimmed || undefined });
+  };
+
+  const updateAddress = (field: "gasToken" | "refundReceiver", input: string) =>
+    onChange({ ...value, [field]: input.trim() || undefined });
+
+  const addressError = (address?: string) =>
+    address && !ethers.isAddress(address) ? "Invalid address" : "";
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <span>
+          ⛽ Gas & Refund{" "}
+          {(isRefund || value.safeTxGas || value.estimateSafeTxGas) && (
+            <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-700 rounded text-xs">
+              {isRefund ? "Refund enabled" : "Custom"}
+            </span>
+          )}
+        </span>
+        <span
+          className={`transform transition-transform ${
+            expanded ? "rotate-180" : ""
+          }`}
+        >
+          ▼
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="p-4 border-t border-gray-200 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                safeTxGas
+              </label>
+              <input
+                type="text"
+                value={value.safeTxGas || ""}
+                onChange={(e) => updateNumber("safeTxGas", e.target.value)}
+                placeholder={isRefund ? "Estimated" : "0"}
+                className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+              />
+              <label className="mt-1 flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={!!value.estimateSafeTxGas}
+                  onChange={(e) =>
+                    onChange({ ...value, estimateSafeTxGas: e.target.checked })
+                  }
+                />
+                Estimate if empty
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                baseGas
+              </label>
+              <input
+                type="text"
+                value={value.baseGas || ""}
+                onChange={(e) => updateNumber("baseGas", e.target.value)}
+                placeholder={isRefund ? "Estimated" : "0"}
+                className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                gasPrice (base units of gas token)
+              </label>
+              <input
+                type="text"
+                value={value.gasPrice || ""}
+                onChange={(e) => updateNumber("gasPrice", e.target.value)}
+                placeholder="0 (no refund)"
+                className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                gasToken
+              </label>
+              <input
+                type="text"
+                value={value.gasToken || ""}
+                onChange={(e) => updateAddress("gasToken", e.target.value)}
+                placeholder="0x0000... (native coin)"
+                className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+              />
+              {addressError(value.gasToken) && (
+                <p className="mt-1 text-xs text-red-600">
+                  {addressError(value.gasToken)}
+                </p>
+              )}
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                refundReceiver
+              </label>
+              <input
+                type="text"
+                value={value.refundReceiver || ""}
+                onChange={(e) =>
+                  updateAddress("refundReceiver", e.target.value)
+                }
+                placeholder="0x0000... (executor, tx.origin)"
+                className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+              />
+              {addressError(value.refundReceiver) && (
+                <p className="mt-1 text-xs text-red-600">
+                  {addressError(value.refundReceiver)}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-600">
+            With gasPrice above zero the Safe pays (baseGas + gas used) ×
+            gasPrice to the refund receiver in the gas token. Empty safeTxGas
+            and baseGas are estimated in that case. A failing call is then not
+            reverted, the nonce is consumed and the refund is still paid.
+          </p>
+
+          <button
+            onClick={() => onChange({})}
+            className="text-xs text-gray-600 hover:text-gray-800 underline"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface GasParametersSummaryProps {
+  safeTransaction: SafeTransaction;
+}
+
+// Gas fields of a created transaction, hidden when all are defaults
+export const GasParametersSummary: React.FC<GasParametersSummaryProps> = ({
+  safeTransaction,
+}) => {
+  const { safeTxGas, baseGas, gasPrice, gasToken, refundReceiver } =
+    safeTransaction.data;
+
+  if (
+    Number(safeTxGas) === 0 &&
+    Number(baseGas) === 0 &&
+    BigInt(gasPrice) === 0n
+  ) {
+    return null;
+  }
+
+  return (
+    <div>
+      <label className="font-medium text-gray-700">Gas & Refund:</label>
+      <div className="mt-1 p-2 bg-white border rounded text-xs grid grid-cols-2 gap-1">
+        <div>
+          <strong>safeTxGas:</strong> {safeTxGas.toString()}
+        </div>
+        <div>
+          <strong>baseGas:</strong> {baseGas.toString()}
+        </div>
+        <div>
+          <strong>gasPrice:</strong> {gasPrice}
+        </div>
+        <div>
+          <strong>gasToken:</strong>{" "}
+          {gasToken === ethers.ZeroAddress ? "Native" : formatAddress(gasToken)}
+        </div>
+        <div className="col-span-2">
+          <strong>refundReceiver:</strong>{" "}
+          {refundReceiver === ethers.ZeroAddress
+            ? "Executor"
+            : formatAddress(refundReceiver)}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+/**
+ * ERC721/ERC1155 tokens held by the Safe, sent with safeTransferFrom
+ */
+
+import React, { useState, useEffect } from "react";
+import SafeOnChain from "../lib/onchain";
+import { UniversalOperationResult } from "../lib/offchain";
+import { SafeNft } from "../lib/nft";
+import { formatAddress } from "../lib/safe-common";
+import { CalldataDecoder } from "../lib/calldata-decoder";
+import { DecodedCallView } from "./DecodedCallView";
+
+interface NftTransferProps {
+  safeOnChain: SafeOnChain;
+  safeAddress: string;
+  getNextNonce: () => Promise<number>;
+  onSignAndPropose: (
+    result: UniversalOperationResult,
+    origin: string
+  ) => Promise<void>;
+}
+
+const getNftKey = (nft: SafeNft) =>
+  `${nft.contractAddress.toLowerCase()}:${nft.tokenId}`;
+
+export const NftTransfer: React.FC<NftTransferProps> = ({
+  safeOnChain,
+  safeAddress,
+  getNextNonce,
+  onSignAndPropose,
+}) => {
+  const [nfts, setNfts] = useState<SafeNft[]>([]);
+  // Selected NFT key to amount, ERC721 amounts are always 1
+  const [selected, setSelected] = useState<{ [key: string]: string }>({});
+  const [recipient, setRecipient] = useState("");
+  const [manualContract, setManualContract] = useState("");
+  const [manualTokenId, setManualTokenId] = useState("");
+  const [result, setResult] = useState<UniversalOperationResult | null>(null);
+  const [loading, setLoading] = useState<
+    "nfts" | "add" | "preview" | "propose" | null
+  >(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setLoading("nfts");
+    safeOnChain
+      .getSafeNfts()
+      .then(setNfts)
+      .catch((err) => {
+        console.error("Safe NFTs loading error:", err);
+        setError(err.message || "Failed to load NFTs");
+      })
+      .finally(() => setLoading(null));
+  }, [safeOnChain, safeAddress]);
+
+  const toggleNft = (nft: SafeNft) => {
+    const key = getNftKey(nft);
+    const { [key]: current, ...rest } = selected;
+    setSelected(current !== undefined ? rest : { ...selected, [key]: "1" });
+    setResult(null);
+  };
+
+  // NFTs outside of the scanned blocks are added by contract and token id
+  const handleAddManual = async () => {
+    setLoading("add");
+    setError("");
+
+    try {
+      let tokenId: bigint;
+      try {
+        tokenId = BigInt(manualTokenId.trim());
+      } catch (err) {
+        throw new Error("Token ID must be an integer");
+      }
+
+      const nft = await safeOnChain.getNftHolding(
+        manualContract.trim(),
+        tokenId
+      );
+      if (nft.balance === 0n) {
+        throw new Error(
+          `Safe does not hold ${nft.standard} token #${tokenId} of ${nft.contractAddress}`
+        );
+      }
+
+      if (!nfts.some((known) => getNftKey(known) === getNftKey(nft))) {
+        setNfts([...nfts, nft]);
+      }
+      setSelected({ ...selected, [getNftKey(nft)]: "1" });
+      setManualContract("");
+      setManualTokenId("");
+      setResult(null);
+    } catch (err: any) {
+      console.error("NFT lookup error:", err);
+      setError(err.message || "Failed to load NFT");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handlePreview = async () => {
+    setLoading("preview");
+    setError("");
+    setResult(null);
+
+    try {
+      const items = nfts
+        .filter((nft) => selected[getNftKey(nft)] !== undefined)
+        .map((nft) => {
+          let amount: bigint;
+          try {
+            amount = BigInt(selected[getNftKey(nft)].trim());
+          } catch (err) {
+            throw new Error(
+              `Amount of token #${nft.tokenId} must be an integer`
+            );
+          }
+          return {
+            contractAddress: nft.contractAddress,
+            tokenId: nft.tokenId,
+            amount,
+          };
+        });
+
+      const nonce = await getNextNonce();
+      setResult(
+        await safeOnChain.createNftTransferTransactionHash(
+          recipient.trim(),
+          items,
+          nonce
+        )
+      );
+    } catch (err: any) {
+      console.error("NFT transfer preview error:", err);
+      setError(err.message || "Failed to build NFT transfer");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handlePropose = async () => {
+    if (!result) return;
+
+    setLoading("propose");
+    setError("");
+
+    try {
+      await onSignAndPropose(
+        result,
+        `NFT transfer: ${Object.keys(selected).length} token(s)`
+      );
+      setResult(null);
+      setSelected({});
+    } catch (err: any) {
+      console.error("NFT transfer proposal error:", err);
+      setError(err.message || "Failed to propose NFT transfer");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading === "nfts" ? (
+        <div className="text-sm text-gray-500">Scanning transfer logs...</div>
+      ) : nfts.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          No NFTs found in recent transfers to the Safe
+        </div>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {nfts.map((nft) => {
+            const key = getNftKey(nft);
+            const isSelected = selected[key] !== undefined;
+            return (
+              <div key={key} className="flex items-center gap-3 p-3 text-sm">
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => toggleNft(nft)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-gray-900">
+                    {nft.collectionName || formatAddress(nft.contractAddress)}{" "}
+                    <span className="font-mono">#{nft.tokenId.toString()}</span>
+                  </div>
+                  <div
+                    className="text-xs text-gray-500 font-mono"
+                    title={nft.contractAddress}
+                  >
+                    {nft.standard} · {formatAddress(nft.contractAddress)}
+                    {nft.standard === "ERC1155" &&
+                      ` · balance ${nft.balance.toString()}`}
+                  </div>
+                </div>
+                {isSelected && nft.standard === "ERC1155" && (
+                  <input
+                    type="text"
+                    value={selected[key]}
+                    onChange={(e) => {
+                      setSelected({ ...selected, [key]: e.target.value });
+                      setResult(null);
+                    }}
+                    className="w-24 p-1 border border-gray-300 rounded font-mono text-sm"
+                    title="Amount"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={manualContract}
+          onChange={(e) => setManualContract(e.target.value)}
+          placeholder="NFT contract 0x..."
+          className="flex-1 min-w-[200px] p-2 border border-gray-300 rounded-lg font-mono text-sm"
+        />
+        <input
+          type="text"
+          value={manualTokenId}
+          onChange={(e) => setManualTokenId(e.target.value)}
+          placeholder="Token ID"
+          className="w-32 p-2 border border-gray-300 rounded-lg font-mono text-sm"
+        />
+        <button
+          onClick={handleAddManual}
+          disabled={loading !== null || !manualContract || !manualTokenId}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm disabled:opacity-50"
+        >
+          {loading === "add" ? "Checking..." : "Add NFT"}
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={recipient}
+        onChange={(e) => {
+          setRecipient(e.target.value);
+          setResult(null);
+        }}
+        placeholder="Recipient 0x..."
+        className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+      />
+
+      <button
+        onClick={handlePreview}
+        disabled={loading !== null || Object.keys(selected).length === 0}
+        className="w-full px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+      >
+        {loading === "preview"
+          ? "Building..."
+          : `Transfer ${Object.keys(selected).length} NFT(s)`}
+      </button>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm break-all">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3 text-sm">
+          <DecodedCallView
+            call={CalldataDecoder.decode({
+              to: result.safeTransaction.data.to,
+              value: result.safeTransaction.data.value,
+              data: result.safeTransaction.data.data,
+              operation: result.safeTransaction.data.operation,
+            })}
+          />
+          <div className="text-xs text-gray-600">
+            <div>
+              <strong>Nonce:</strong> {result.transactionDetails.nonce}
+            </div>
+            <div className="font-mono break-all">
+              <strong>safeTxHash:</strong> {result.transactionHash}
+            </div>
+          </div>
+
+          <button
+            onClick={handlePropose}
+            disabled={loading !== null}
+            className="w-full px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+          >
+            {loading === "propose" ? "Signing..." : "Sign & Propose"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
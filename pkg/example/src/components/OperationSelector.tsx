@@ -0,0 +1,113 @@
+/**
+ * Call / DelegateCall choice for a Safe transaction with trust checks
+ */
+
+import React, { useEffect } from "react";
+import { ethers } from "ethers";
+import { OperationType } from "@safe-global/types-kit";
+import { UniversalFunctionCall } from "../lib/onchain";
+import { contractRegistry } from "../lib/contract-registry";
+
+export type OperationOptions = Pick<
+  UniversalFunctionCall,
+  "operation" | "untrustedDelegateCallTarget"
+>;
+
+interface OperationSelectorProps {
+  targetAddress: string;
+  value: OperationOptions;
+  onChange: (options: OperationOptions) => void;
+}
+
+export const OperationSelector: React.FC<OperationSelectorProps> = ({
+  targetAddress,
+  value,
+  onChange,
+}) => {
+  const isDelegateCall = value.operation === OperationType.DelegateCall;
+  const hasTarget = ethers.isAddress(targetAddress);
+  const isTrusted =
+    hasTarget && contractRegistry.isTrustedForDelegateCall(targetAddress);
+  const isAcknowledged =
+    hasTarget &&
+    value.untrustedDelegateCallTarget?.toLowerCase() ===
+      targetAddress.toLowerCase();
+
+  // Risk acknowledgement is given for one target and dropped when it changes
+  useEffect(() => {
+    if (value.untrustedDelegateCallTarget && !isAcknowledged) {
+      onChange({ ...value, untrustedDelegateCallTarget: undefined });
+    }
+  }, [targetAddress]);
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Operation
+      </label>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => onChange({ operation: OperationType.Call })}
+          className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+            !isDelegateCall
+              ? "bg-blue-600 text-white"
+              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+          }`}
+        >
+          Call
+        </button>
+        <button
+          onClick={() =>
+            onChange({
+              operation: OperationType.DelegateCall,
+              untrustedDelegateCallTarget: undefined,
+            })
+          }
+          className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+            isDelegateCall
+              ? "bg-red-600 text-white"
+              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+          }`}
+        >
+          DelegateCall
+        </button>
+      </div>
+
+      {isDelegateCall && isTrusted && (
+        <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          Target is marked as trusted for delegatecall by the Safe Transaction
+          Service. Its code runs in the context of the Safe.
+        </div>
+      )}
+
+      {isDelegateCall && !isTrusted && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-300 rounded-lg text-sm text-red-800">
+          <p className="font-semibold">
+            ⚠️ {hasTarget ? "Untrusted" : "Unknown"} delegatecall target
+          </p>
+          <p className="mt-1">
+            A delegatecall runs the target code with the Safe storage and funds.
+            A malicious or buggy contract can change owners, add modules or
+            drain every asset of the Safe.
+          </p>
+          <label className="mt-2 flex items-center gap-2 font-medium">
+            <input
+              type="checkbox"
+              checked={isAcknowledged}
+              disabled={!hasTarget}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  untrustedDelegateCallTarget: e.target.checked
+                    ? targetAddress
+                    : undefined,
+                })
+              }
+            />
+            I verified the target code and accept the risk
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
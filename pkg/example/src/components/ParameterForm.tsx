@@ -2,46 +2,127 @@
  * Component for inputting contract function parameters
  */
 
-import React, { useState, useEffect } from "react";
+import React, { useEffect, useMemo } from "react";
+import { ethers } from "ethers";
 import {
   ParsedFunction,
   FunctionFormData,
   ABIInput,
+  ParameterValue,
 } from "../lib/contract-types";
+import { ABIParser } from "../lib/abi-parser";
+import { ParameterConverter, TokenUnits } from "../lib/parameter-converter";
+import { TokenMetadata, isTokenAmountInput } from "../lib/token-metadata";
 
 interface ParameterFormProps {
   selectedFunction: ParsedFunction | null;
   onFormChange: (data: FunctionFormData) => void;
   formData: FunctionFormData;
+  token?: TokenMetadata | null; // Set when the target contract is an ERC20
 }
 
+// Amount-like parameters of ERC20 targets start in token units
+const getDefaultTokenUnits = (
+  func: ParsedFunction,
+  token?: TokenMetadata | null
+): TokenUnits => {
+  const tokenUnits: TokenUnits = {};
+  if (token) {
+    func.inputs.forEach((input, index) => {
+      if (isTokenAmountInput(input)) {
+        tokenUnits[ParameterConverter.getFieldName(input, index)] =
+          token.decimals;
+      }
+    });
+  }
+  return tokenUnits;
+};
+
+type ValuePath = (string | number)[];
+
+// Immutable update of a nested form value
+const setValueAtPath = (
+  current: ParameterValue,
+  path: ValuePath,
+  value: ParameterValue
+): ParameterValue => {
+  if (path.length === 0) {
+    return value;
+  }
+
+  const [key, ...rest] = path;
+  if (Array.isArray(current)) {
+    const next = [...current];
+    next[key as number] = setValueAtPath(next[key as number], rest, value);
+    return next;
+  }
+
+  const object = (current && typeof current === "object" ? current : {}) as {
+    [key: string]: ParameterValue;
+  };
+  return {
+    ...object,
+    [key]: setValueAtPath(object[key], rest, value),
+  };
+};
+
 export const ParameterForm: React.FC<ParameterFormProps> = ({
   selectedFunction,
   onFormChange,
   formData,
+  token,
 }) => {
   useEffect(() => {
     if (selectedFunction) {
-      // Initialize empty values for new function
-      const initialParameters: { [key: string]: any } = {};
+      // Initialize empty values for new function, nested for arrays and tuples
+      const initialParameters: { [key: string]: ParameterValue } = {};
       selectedFunction.inputs.forEach((input, index) => {
-        const fieldName = input.name || `param${index}`;
-        initialParameters[fieldName] = "";
+        const fieldName = ParameterConverter.getFieldName(input, index);
+        initialParameters[fieldName] =
+          ParameterConverter.getDefaultValue(input);
       });
 
       onFormChange({
         parameters: initialParameters,
         ethValue: formData.ethValue || "0",
+        tokenUnits: getDefaultTokenUnits(selectedFunction, token),
       });
     }
   }, [selectedFunction]);
 
-  const handleParameterChange = (paramName: string, value: string) => {
+  // Token metadata is loaded asynchronously, usually after the form opened
+  useEffect(() => {
+    if (selectedFunction) {
+      onFormChange({
+        ...formData,
+        tokenUnits: getDefaultTokenUnits(selectedFunction, token),
+      });
+    }
+  }, [token?.address]);
+
+  const errors = useMemo(
+    () =>
+      selectedFunction
+        ? ParameterConverter.validateParameters(
+            selectedFunction.inputs,
+            formData.parameters,
+            formData.tokenUnits
+          )
+        : {},
+    [selectedFunction, formData.parameters, formData.tokenUnits]
+  );
+
+  const handleParameterChange = (path: ValuePath, value: ParameterValue) => {
+    const [fieldName, ...rest] = path as [string, ...ValuePath];
     onFormChange({
       ...formData,
       parameters: {
         ...formData.parameters,
-        [paramName]: value,
+        [fieldName]: setValueAtPath(
+          formData.parameters[fieldName],
+          rest,
+          value
+        ),
       },
     });
   };
@@ -53,25 +134,242 @@ export const ParameterForm: React.FC<ParameterFormProps> = ({
     });
   };
 
+  const renderLabel = (label: string, input: ABIInput) => (
+    <label className="block text-sm font-medium text-gray-700">
+      {label}
+      <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded font-mono">
+        {ABIParser.formatType(input)}
+      </span>
+    </label>
+  );
+
+  const renderError = (errorPath: string) =>
+    errors[errorPath] && (
+      <p className="text-xs text-red-600">{errors[errorPath]}</p>
+    );
+
+  const renderArray = (
+    input: ABIInput,
+    value: ParameterValue | undefined,
+    path: ValuePath,
+    errorPath: string,
+    label: string
+  ) => {
+    const items = Array.isArray(value) ? value : [];
+    const isDynamic =
+      ParameterConverter.parseArrayType(input.type)?.length === null;
+    const itemInput = ParameterConverter.getArrayItemInput(input);
+
+    return (
+      <div className="space-y-2">
+        {renderLabel(label, input)}
+        <div className="pl-4 border-l-2 border-purple-200 space-y-3">
+          {items.length === 0 && (
+            <p className="text-xs text-gray-500">Empty list</p>
+          )}
+          {items.map((item, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1 min-w-0">
+                {renderField(
+                  itemInput,
+                  item,
+                  [...path, index],
+                  `${errorPath}[${index}]`,
+                  `[${index}]`
+                )}
+              </div>
+              {isDynamic && (
+                <button
+                  onClick={() =>
+                    handleParameterChange(
+                      path,
+                      items.filter((_, i) => i !== index)
+                    )
+                  }
+                  className="mt-1 px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded"
+                  title="Remove item"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+          {isDynamic && (
+            <button
+              onClick={() =>
+                handleParameterChange(path, [
+                  ...items,
+                  ParameterConverter.getDefaultValue(itemInput),
+                ])
+              }
+              className="px-3 py-1 text-xs bg-purple-50 text-purple-700 border border-purple-200 rounded hover:bg-purple-100"
+            >
+              + Add item
+            </button>
+          )}
+        </div>
+        {renderError(errorPath)}
+      </div>
+    );
+  };
+
+  const renderTuple = (
+    input: ABIInput,
+    value: ParameterValue | undefined,
+    path: ValuePath,
+    errorPath: string,
+    label: string
+  ) => {
+    const fields =
+      value && typeof value === "object" && !Array.isArray(value) ? value : {};
+
+    return (
+      <div className="space-y-2">
+        {renderLabel(label, input)}
+        <div className="pl-4 border-l-2 border-blue-200 space-y-3">
+          {(input.components || []).map((component, index) => {
+            const name = ParameterConverter.getFieldName(component, index);
+            return (
+              <div key={name}>
+                {renderField(
+                  component,
+                  fields[name],
+                  [...path, name],
+                  `${errorPath}.${name}`,
+                  component.name || `Field ${index + 1}`
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {renderError(errorPath)}
+      </div>
+    );
+  };
+
+  const renderField = (
+    input: ABIInput,
+    value: ParameterValue | undefined,
+    path: ValuePath,
+    errorPath: string,
+    label: string
+  ): React.ReactNode => {
+    if (ParameterConverter.parseArrayType(input.type)) {
+      return renderArray(input, value, path, errorPath, label);
+    }
+    if (ParameterConverter.isTuple(input)) {
+      return renderTuple(input, value, path, errorPath, label);
+    }
+
+    const text = typeof value === "string" ? value : "";
+    // Required-field errors are reported on submit, not while typing
+    const showError = text !== "" || input.type === "string";
+
+    return (
+      <div className="space-y-2">
+        {renderLabel(label, input)}
+        {input.type === "bool" ? (
+          <select
+            value={text}
+            onChange={(e) => handleParameterChange(path, e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          >
+            <option value="">Select value</option>
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => handleParameterChange(path, e.target.value)}
+            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 ${
+              showError && errors[errorPath]
+                ? "border-red-300"
+                : "border-gray-300"
+            }`}
+            placeholder={`Enter ${input.type}`}
+          />
+        )}
+        {showError && renderError(errorPath)}
+      </div>
+    );
+  };
+
+  const toggleTokenUnits = (fieldName: string) => {
+    if (!token) return;
+    const tokenUnits = { ...formData.tokenUnits };
+    if (tokenUnits[fieldName] !== undefined) {
+      delete tokenUnits[fieldName];
+    } else {
+      tokenUnits[fieldName] = token.decimals;
+    }
+    onFormChange({ ...formData, tokenUnits });
+  };
+
+  // Scaled integer sent on-chain for a value entered in token units
+  const renderRawAmount = (fieldName: string) => {
+    const decimals = formData.tokenUnits?.[fieldName];
+    const value = formData.parameters[fieldName];
+    if (decimals === undefined || typeof value !== "string" || !value) {
+      return null;
+    }
+    try {
+      return (
+        <span className="text-gray-500 font-mono">
+          Raw: {ethers.parseUnits(value.trim(), decimals).toString()}
+        </span>
+      );
+    } catch (error) {
+      return null;
+    }
+  };
+
   const renderInput = (input: ABIInput, index: number) => {
-    const fieldName = input.name || `param${index}`;
-    const value = formData.parameters[fieldName] || "";
+    const fieldName = ParameterConverter.getFieldName(input, index);
+    const isInteger = /^u?int\d*$/.test(input.type);
+    const inTokenUnits = formData.tokenUnits?.[fieldName] !== undefined;
+    // NatSpec is keyed by parameter name, unnamed inputs have none
+    const description = selectedFunction?.docs?.params?.[input.name];
+    const unit = selectedFunction?.docs?.units?.[input.name];
 
     return (
-      <div key={index} className="space-y-2">
-        <label className="block text-sm font-medium text-gray-700">
-          {input.name || `Parameter ${index + 1}`}
-          <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-            {input.type}
-          </span>
-        </label>
-        <input
-          type="text"
-          value={value}
-          onChange={(e) => handleParameterChange(fieldName, e.target.value)}
-          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-          placeholder={`Enter ${input.type}`}
-        />
+      <div key={index}>
+        {renderField(
+          input,
+          formData.parameters[fieldName],
+          [fieldName],
+          fieldName,
+          input.name || `Parameter ${index + 1}`
+        )}
+        {token && isInteger && (
+          <div className="mt-1 flex items-center gap-3 text-xs">
+            <button
+              onClick={() => toggleTokenUnits(fieldName)}
+              className={`px-2 py-0.5 rounded border ${
+                inTokenUnits
+                  ? "bg-green-50 border-green-300 text-green-700"
+                  : "bg-gray-50 border-gray-300 text-gray-600"
+              }`}
+              title="Switch between token units and raw integer"
+            >
+              {inTokenUnits
+                ? `In ${token.symbol} (${token.decimals} decimals)`
+                : "Raw integer"}
+            </button>
+            {renderRawAmount(fieldName)}
+          </div>
+        )}
+        {(description || unit) && (
+          <p className="mt-1 text-xs text-gray-500">
+            {unit && (
+              <span className="mr-2 px-2 py-0.5 bg-blue-50 text-blue-700 rounded">
+                {unit}
+              </span>
+            )}
+            {description}
+          </p>
+        )}
       </div>
     );
   };
@@ -90,11 +388,24 @@ export const ParameterForm: React.FC<ParameterFormProps> = ({
         <h3 className="text-lg font-semibold text-gray-900">
           Function Parameters
         </h3>
-        <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded">
-          {selectedFunction.name}
+        <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded font-mono">
+          {selectedFunction.signature}
         </span>
       </div>
 
+      {(selectedFunction.docs?.notice || selectedFunction.docs?.details) && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800 space-y-1">
+          {selectedFunction.docs.notice && (
+            <p>{selectedFunction.docs.notice}</p>
+          )}
+          {selectedFunction.docs.details && (
+            <p className="text-xs text-blue-700">
+              {selectedFunction.docs.details}
+            </p>
+          )}
+        </div>
+      )}
+
       {selectedFunction.inputs.length === 0 ? (
         <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg text-center text-blue-700">
           This function requires no parameters
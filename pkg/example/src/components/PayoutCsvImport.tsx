@@ -0,0 +1,265 @@
+/**
+ * Bulk payout from a CSV file, proposed as one or more MultiSend batches
+ */
+
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import SafeOnChain from "../lib/onchain";
+import { UniversalOperationResult } from "../lib/offchain";
+import { TransferRequest, TransferTotal } from "../lib/transfers";
+import {
+  DEFAULT_MAX_CALLS_PER_BATCH,
+  PayoutRowError,
+  parsePayoutCsv,
+  splitIntoBatches,
+} from "../lib/payout-csv";
+import { formatAddress } from "../lib/safe-common";
+
+interface PayoutCsvImportProps {
+  safeOnChain: SafeOnChain;
+  getNextNonce: () => Promise<number>;
+  onSignAndPropose: (
+    result: UniversalOperationResult,
+    origin: string,
+    options?: { stayOnPage?: boolean }
+  ) => Promise<void>;
+}
+
+interface PayoutValidation {
+  transfers: TransferRequest[];
+  errors: PayoutRowError[];
+  totals: TransferTotal[];
+}
+
+const CSV_PLACEHOLDER = `recipient,token,amount
+0x1111111111111111111111111111111111111111,native,1.5
+0x2222222222222222222222222222222222222222,0xTokenAddress...,250`;
+
+export const PayoutCsvImport: React.FC<PayoutCsvImportProps> = ({
+  safeOnChain,
+  getNextNonce,
+  onSignAndPropose,
+}) => {
+  const [csvText, setCsvText] = useState("");
+  const [maxCallsPerBatch, setMaxCallsPerBatch] = useState<string>(
+    DEFAULT_MAX_CALLS_PER_BATCH.toString()
+  );
+  const [validation, setValidation] = useState<PayoutValidation | null>(null);
+  const [loading, setLoading] = useState<"validate" | "propose" | null>(null);
+  const [proposed, setProposed] = useState<number>(0);
+  // Nonce of the first batch, kept when proposing resumes after an error
+  const [firstNonce, setFirstNonce] = useState<number | null>(null);
+  const [error, setError] = useState("");
+
+  const updateCsv = (text: string) => {
+    setCsvText(text);
+    setValidation(null);
+    setProposed(0);
+    setFirstNonce(null);
+    setError("");
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    updateCsv(await file.text());
+  };
+
+  const batches = (() => {
+    if (!validation) return [];
+    try {
+      return splitIntoBatches(validation.transfers, parseInt(maxCallsPerBatch));
+    } catch (err) {
+      return [];
+    }
+  })();
+
+  const hasShortfall =
+    validation?.totals.some((total) => total.amount > total.balance) ?? false;
+  const canPropose =
+    validation !== null &&
+    validation.errors.length === 0 &&
+    !hasShortfall &&
+    batches.length > 0;
+
+  const handleValidate = async () => {
+    setLoading("validate");
+    setError("");
+    setValidation(null);
+    setProposed(0);
+    setFirstNonce(null);
+
+    try {
+      const parsed = parsePayoutCsv(csvText);
+      const result = await safeOnChain.validatePayoutRows(parsed.rows);
+      setValidation({
+        ...result,
+        errors: [...parsed.errors, ...result.errors].sort(
+          (a, b) => a.line - b.line
+        ),
+      });
+    } catch (err: any) {
+      console.error("Payout CSV validation error:", err);
+      setError(err.message || "Failed to validate CSV");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  // Batches get consecutive nonces and are signed one after another
+  const handlePropose = async () => {
+    if (!canPropose) return;
+
+    setLoading("propose");
+    setError("");
+
+    try {
+      const nonce = firstNonce ?? (await getNextNonce());
+      setFirstNonce(nonce);
+
+      for (let i = proposed; i < batches.length; i++) {
+        const result = await safeOnChain.createTransferTransactionHash(
+          batches[i],
+          nonce + i
+        );
+        await onSignAndPropose(
+          result,
+          `Payout CSV: batch ${i + 1}/${batches.length}`,
+          { stayOnPage: i < batches.length - 1 }
+        );
+        setProposed(i + 1);
+      }
+    } catch (err: any) {
+      console.error("Payout proposal error:", err);
+      setError(err.message || "Failed to propose payout batch");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          CSV file (recipient, token, amount)
+        </label>
+        <input
+          type="file"
+          accept=".csv,text/csv,text/plain"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block text-sm mb-2"
+        />
+        <textarea
+          value={csvText}
+          onChange={(e) => updateCsv(e.target.value)}
+          placeholder={CSV_PLACEHOLDER}
+          rows={6}
+          className="w-full p-3 border border-gray-300 rounded-lg font-mono text-xs"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Token is an ERC20 address or &quot;native&quot;, amounts are in token
+          units.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Max calls per batch
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={maxCallsPerBatch}
+            onChange={(e) => setMaxCallsPerBatch(e.target.value)}
+            disabled={proposed > 0}
+            className="w-28 p-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <button
+          onClick={handleValidate}
+          disabled={loading !== null || csvText.trim() === ""}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {loading === "validate" ? "Validating..." : "Validate"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm break-all">
+          {error}
+        </div>
+      )}
+
+      {validation && (
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3 text-sm">
+          {validation.errors.length > 0 && (
+            <div className="space-y-1">
+              <div className="font-medium text-red-700">
+                {validation.errors.length} invalid row(s), fix the file and
+                validate again:
+              </div>
+              {validation.errors.map((rowError, index) => (
+                <div key={index} className="text-red-700 text-xs">
+                  {rowError.line > 0 ? `Line ${rowError.line}: ` : ""}
+                  {rowError.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <div className="font-medium text-gray-700 mb-1">
+              Totals for {validation.transfers.length} valid transfer(s):
+            </div>
+            {validation.totals.map((total) => (
+              <div
+                key={total.tokenAddress || "native"}
+                className={`flex justify-between ${
+                  total.amount > total.balance
+                    ? "text-red-700"
+                    : "text-gray-700"
+                }`}
+              >
+                <span title={total.tokenAddress || undefined}>
+                  {total.symbol}
+                  {total.tokenAddress &&
+                    ` (${formatAddress(total.tokenAddress)})`}
+                </span>
+                <span className="font-mono">
+                  {ethers.formatUnits(total.amount, total.decimals)} of{" "}
+                  {ethers.formatUnits(total.balance, total.decimals)} available
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {batches.length > 0 && (
+            <div className="text-gray-700">
+              {batches.length} proposal(s):{" "}
+              {batches.map((batch) => batch.length).join(" + ")} calls
+              {proposed > 0 && (
+                <span className="ml-2 text-green-700">
+                  {proposed} of {batches.length} proposed
+                </span>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={handlePropose}
+            disabled={
+              !canPropose || loading !== null || proposed === batches.length
+            }
+            className="w-full px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+          >
+            {loading === "propose"
+              ? `Signing batch ${proposed + 1} of ${batches.length}...`
+              : proposed > 0
+              ? `Sign & Propose remaining ${batches.length - proposed}`
+              : `Sign & Propose ${batches.length} batch(es)`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
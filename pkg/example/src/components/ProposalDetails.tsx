@@ -0,0 +1,522 @@
+import React, { useState, useEffect, useMemo } from "react";
+
+import SafeOnChain from "../lib/onchain";
+import { UserProposal } from "../lib/offchain";
+import { formatAddress } from "../lib/safe-common";
+import { contractRegistry } from "../lib/contract-registry";
+import { CalldataDecoder, DecodedCall } from "../lib/calldata-decoder";
+import { DecodedCallView } from "./DecodedCallView";
+import { SimulationResult } from "../lib/simulation";
+import { DecodedLog, EventDecoder } from "../lib/event-decoder";
+import { DecodedLogsView } from "./DecodedLogsView";
+import {
+  SignatureVerificationReport,
+  ConfirmationVerification,
+  getSafeTxHashData,
+} from "../lib/signature-verification";
+
+interface ProposalDetailsProps {
+  proposal: UserProposal;
+  userAddress: string;
+  safeOnChain?: SafeOnChain | null;
+  onChainApprovals?: string[]; // Owners that called approveHash()
+  userSafes?: string[]; // Safes owned by the user, may be owners of this Safe
+  approving?: boolean;
+  onApproveViaSafe?: (ownerSafe: string) => void;
+}
+
+const SIGNATURE_KIND_LABELS: Record<string, string> = {
+  eip712: "EIP-712",
+  eth_sign: "eth_sign",
+  approved_hash: "Approved hash",
+  contract: "Contract (EIP-1271)",
+};
+
+const ProposalDetails: React.FC<ProposalDetailsProps> = ({
+  proposal,
+  userAddress,
+  safeOnChain,
+  onChainApprovals,
+  userSafes,
+  approving = false,
+  onApproveViaSafe,
+}) => {
+  const [verification, setVerification] =
+    useState<SignatureVerificationReport | null>(null);
+  const [verifying, setVerifying] = useState<boolean>(false);
+  const [verificationError, setVerificationError] = useState<string>("");
+  const [ownerSafes, setOwnerSafes] = useState<string[]>([]);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState<boolean>(false);
+  const [simulationError, setSimulationError] = useState<string>("");
+  const [executionLogs, setExecutionLogs] = useState<DecodedLog[] | null>(null);
+  const [executionLogsError, setExecutionLogsError] = useState<string>("");
+
+  // Verify confirmations of pending proposals against the current owners
+  useEffect(() => {
+    if (
+      !safeOnChain ||
+      proposal.isExecuted ||
+      !proposal.confirmations?.length
+    ) {
+      setVerification(null);
+      return;
+    }
+
+    let cancelled = false;
+    setVerifying(true);
+    setVerificationError("");
+
+    safeOnChain
+      .verifyConfirmations(
+        proposal.safe,
+        proposal.safeTxHash,
+        proposal.confirmations,
+        getSafeTxHashData(proposal)
+      )
+      .then((report) => {
+        if (!cancelled) setVerification(report);
+      })
+      .catch((error) => {
+        console.error("Signature verification error:", error);
+        if (!cancelled) {
+          setVerificationError(error.message || "Verification failed");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setVerifying(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [safeOnChain, proposal.safeTxHash, proposal.confirmations?.length]);
+
+  // Dry-run the transaction so owners see the outcome before signing
+  const runSimulation = async () => {
+    if (!safeOnChain) return;
+
+    setSimulating(true);
+    setSimulationError("");
+
+    try {
+      const result = await safeOnChain.simulateTransaction(proposal.safe, {
+        to: proposal.to,
+        value: BigInt(proposal.value || "0"),
+        data: proposal.data || "0x",
+        operation: proposal.operation,
+      });
+      setSimulation(result);
+    } catch (error: any) {
+      console.error("Simulation error:", error);
+      setSimulation(null);
+      setSimulationError(error.message || "Simulation failed");
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  useEffect(() => {
+    if (safeOnChain && !proposal.isExecuted) {
+      runSimulation();
+    } else {
+      setSimulation(null);
+    }
+  }, [safeOnChain, proposal.safeTxHash, proposal.isExecuted]);
+
+  // Events emitted by the executed transaction
+  useEffect(() => {
+    if (!safeOnChain || !proposal.isExecuted || !proposal.transactionHash) {
+      setExecutionLogs(null);
+      return;
+    }
+
+    let cancelled = false;
+    setExecutionLogsError("");
+
+    safeOnChain
+      .getTransactionLogs(proposal.transactionHash)
+      .then((logs) => {
+        if (!cancelled) setExecutionLogs(EventDecoder.decodeLogs(logs));
+      })
+      .catch((error) => {
+        console.error("Error loading transaction logs:", error);
+        if (!cancelled) {
+          setExecutionLogsError(error.message || "Failed to load events");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [safeOnChain, proposal.isExecuted, proposal.transactionHash]);
+
+  // User's Safes that are owners of this Safe and can approve as parent
+  useEffect(() => {
+    if (!safeOnChain || proposal.isExecuted || !userSafes?.length) {
+      setOwnerSafes([]);
+      return;
+    }
+
+    let cancelled = false;
+    safeOnChain
+      .getOnChainOwners(proposal.safe)
+      .then((owners) => {
+        if (cancelled) return;
+        const confirmed = [
+          ...(proposal.confirmations || []).map((c) => c.owner),
+          ...(onChainApprovals || []),
+        ].map((owner) => owner.toLowerCase());
+        setOwnerSafes(
+          owners.filter(
+            (owner) =>
+              userSafes.some((s) => s.toLowerCase() === owner.toLowerCase()) &&
+              !confirmed.includes(owner.toLowerCase())
+          )
+        );
+      })
+      .catch((error) => {
+        console.error("Error loading Safe owners:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    safeOnChain,
+    proposal.safe,
+    proposal.isExecuted,
+    userSafes,
+    onChainApprovals,
+  ]);
+
+  const decodedCall = useMemo(
+    () => CalldataDecoder.decodeProposal(proposal),
+    [proposal.safeTxHash, proposal.dataDecoded]
+  );
+  const [tokenAnnotatedCall, setTokenAnnotatedCall] =
+    useState<DecodedCall | null>(null);
+
+  // ERC20 amounts are also shown in token units once metadata is loaded
+  useEffect(() => {
+    setTokenAnnotatedCall(null);
+    if (!safeOnChain) return;
+
+    let cancelled = false;
+    safeOnChain
+      .annotateTokenAmounts(decodedCall)
+      .then((call) => {
+        if (!cancelled) setTokenAnnotatedCall(call);
+      })
+      .catch((error) => {
+        console.warn("Token amounts not available:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [safeOnChain, decodedCall]);
+
+  const simulationLogs = useMemo(
+    () => (simulation ? EventDecoder.decodeLogs(simulation.logs) : []),
+    [simulation]
+  );
+
+  const getConfirmationVerification = (
+    index: number
+  ): ConfirmationVerification | null =>
+    verification?.confirmations[index] || null;
+
+  const invalidCount =
+    verification?.confirmations.filter((c) => !c.isValid).length || 0;
+
+  // approveHash() calls not yet indexed by STS as confirmations
+  const onChainOnlyApprovals = (onChainApprovals || []).filter(
+    (owner) =>
+      !proposal.confirmations?.some(
+        (c) => c.owner.toLowerCase() === owner.toLowerCase()
+      )
+  );
+  const totalConfirmations =
+    (proposal.confirmations?.length || 0) + onChainOnlyApprovals.length;
+
+  return (
+    <div className="border-t border-gray-100 bg-gray-50 p-4">
+      <div className="space-y-3">
+        <div>
+          <label className="text-sm font-medium text-gray-700">TX Hash:</label>
+          <div className="mt-1 p-2 bg-white border rounded font-mono text-xs break-all">
+            {proposal.safeTxHash}
+          </div>
+        </div>
+
+        {proposal.operation === 1 && (
+          <div
+            className={`p-2 border rounded text-xs ${
+              contractRegistry.isTrustedForDelegateCall(proposal.to)
+                ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+                : "bg-red-50 border-red-300 text-red-800"
+            }`}
+          >
+            <strong>DelegateCall</strong> to {formatAddress(proposal.to)}
+            {contractRegistry.isTrustedForDelegateCall(proposal.to)
+              ? " (trusted by Safe Transaction Service)"
+              : " - target is not trusted for delegatecall, its code gets full control over the Safe"}
+          </div>
+        )}
+
+        <div>
+          <label className="text-sm font-medium text-gray-700">
+            Decoded Call:
+          </label>
+          <div className="mt-1">
+            <DecodedCallView call={tokenAnnotatedCall || decodedCall} />
+          </div>
+        </div>
+
+        {proposal.data && proposal.data !== "0x" && (
+          <div>
+            <label className="text-sm font-medium text-gray-700">Data:</label>
+            <div className="mt-1 p-2 bg-white border rounded font-mono text-xs break-all">
+              {proposal.data.slice(0, 100)}
+              {proposal.data.length > 100 && "..."}
+            </div>
+          </div>
+        )}
+
+        {safeOnChain && !proposal.isExecuted && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700">
+                Simulation:
+              </label>
+              <button
+                onClick={runSimulation}
+                disabled={simulating}
+                className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200 disabled:opacity-50"
+              >
+                {simulating ? "Simulating..." : "Re-run"}
+              </button>
+            </div>
+
+            {simulationError && (
+              <div className="p-2 bg-yellow-50 border border-yellow-200 text-yellow-800 text-xs rounded">
+                {simulationError}
+              </div>
+            )}
+
+            {simulation && (
+              <div
+                className={`p-2 border rounded text-xs space-y-1 ${
+                  simulation.success
+                    ? "bg-green-50 border-green-200"
+                    : "bg-red-50 border-red-200"
+                }`}
+              >
+                <div
+                  className={`font-medium ${
+                    simulation.success ? "text-green-700" : "text-red-700"
+                  }`}
+                >
+                  {simulation.success
+                    ? "✓ Transaction will succeed"
+                    : `✗ Transaction will revert: ${simulation.revertReason}`}
+                </div>
+                <div className="text-gray-700">
+                  <strong>Gas used:</strong> {simulation.gasUsed.toString()}
+                </div>
+                {simulation.success &&
+                  (simulation.logsAvailable ? (
+                    <div>
+                      <strong className="text-gray-700">
+                        Logs ({simulation.logs.length}):
+                      </strong>
+                      <div className="mt-1">
+                        <DecodedLogsView logs={simulationLogs} />
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-gray-500">
+                      Logs are not available for this node or operation
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {proposal.isExecuted && proposal.transactionHash && (
+          <div>
+            <label className="text-sm font-medium text-gray-700">
+              Events
+              {executionLogs ? ` (${executionLogs.length})` : ""}:
+            </label>
+            <div className="mt-1 text-xs">
+              {executionLogsError ? (
+                <div className="p-2 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded">
+                  {executionLogsError}
+                </div>
+              ) : executionLogs ? (
+                <DecodedLogsView logs={executionLogs} />
+              ) : (
+                <div className="text-gray-500">Loading events...</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {totalConfirmations > 0 && (
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Signatures ({totalConfirmations}):
+              {verifying && (
+                <span className="ml-2 text-xs text-blue-600 animate-pulse">
+                  Verifying...
+                </span>
+              )}
+              {verification && (
+                <span
+                  className={`ml-2 text-xs ${
+                    verification.validCount + onChainOnlyApprovals.length >=
+                    verification.threshold
+                      ? "text-green-600"
+                      : "text-orange-600"
+                  }`}
+                >
+                  {verification.validCount + onChainOnlyApprovals.length} of{" "}
+                  {verification.threshold} required are valid
+                </span>
+              )}
+            </label>
+
+            {verificationError && (
+              <div className="mb-2 p-2 bg-yellow-50 border border-yellow-200 text-yellow-800 text-xs rounded">
+                Could not verify signatures: {verificationError}
+              </div>
+            )}
+
+            {invalidCount > 0 && (
+              <div className="mb-2 p-2 bg-red-50 border border-red-200 text-red-700 text-xs rounded">
+                {invalidCount} confirmation(s) will be rejected by the Safe
+                contract and are skipped on execution
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {proposal.confirmations?.map((conf, index) => {
+                const result = getConfirmationVerification(index);
+
+                return (
+                  <div
+                    key={index}
+                    className={`flex items-center gap-3 p-2 bg-white border rounded ${
+                      result && !result.isValid ? "border-red-300" : ""
+                    }`}
+                  >
+                    <div className="flex-1">
+                      <div className="font-medium text-sm">
+                        {formatAddress(conf.owner)}
+                        {conf.owner.toLowerCase() ===
+                          userAddress.toLowerCase() && (
+                          <span className="ml-2 px-2 py-1 bg-green-100 text-green-800 text-xs rounded">
+                            You
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(conf.submissionDate).toLocaleString("en-US")}
+                      </div>
+                      {result?.error && (
+                        <div className="text-xs text-red-600 mt-1">
+                          {result.error}
+                        </div>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <div className="text-xs text-gray-400">
+                        {result?.kind
+                          ? SIGNATURE_KIND_LABELS[result.kind]
+                          : conf.signatureType || "EOA"}
+                      </div>
+                      {result && (
+                        <div
+                          className={`text-xs font-medium ${
+                            result.isValid ? "text-green-600" : "text-red-600"
+                          }`}
+                        >
+                          {result.isValid ? "✓ Valid" : "✗ Invalid"}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {onChainOnlyApprovals.map((owner) => (
+                <div
+                  key={owner}
+                  className="flex items-center gap-3 p-2 bg-white border rounded"
+                >
+                  <div className="flex-1">
+                    <div className="font-medium text-sm">
+                      {formatAddress(owner)}
+                      {owner.toLowerCase() === userAddress.toLowerCase() && (
+                        <span className="ml-2 px-2 py-1 bg-green-100 text-green-800 text-xs rounded">
+                          You
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      approveHash() on-chain
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-xs text-gray-400">Approved hash</div>
+                    <div className="text-xs font-medium text-green-600">
+                      ✓ On-chain
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {ownerSafes.length > 0 && onApproveViaSafe && (
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Owner Safes:
+            </label>
+            <div className="space-y-2">
+              {ownerSafes.map((ownerSafe) => (
+                <div
+                  key={ownerSafe}
+                  className="flex items-center justify-between p-2 bg-white border rounded"
+                >
+                  <div>
+                    <div className="font-mono text-sm">
+                      {formatAddress(ownerSafe)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Approves via approveHash() once its own proposal is
+                      executed
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onApproveViaSafe(ownerSafe)}
+                    disabled={approving}
+                    className="px-3 py-1 bg-purple-100 text-purple-700 rounded text-sm hover:bg-purple-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {approving ? "Proposing..." : "Approve via Safe"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProposalDetails;
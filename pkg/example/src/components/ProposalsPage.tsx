@@ -3,6 +3,8 @@ import { ethers } from "ethers";
 
 import SafeOnChain, { SafeConnectionForm } from "../lib/onchain";
 import UserProposals, { ProposalAction } from "./UserProposals";
+import TransactionQueue from "./TransactionQueue";
+import SelectorDatabaseSettings from "./SelectorDatabaseSettings";
 import SafeOffChain, { UserProposal } from "../lib/offchain";
 import { formatAddress } from "../lib/safe-common";
 import { Network } from "../lib/network-types";
@@ -74,6 +76,9 @@ const ProposalsPage: React.FC<ProposalsPageProps> = ({
   );
   const [safesLoading, setSafesLoading] = useState<boolean>(false);
 
+  // Safe whose nonce queue is expanded
+  const [queueSafeAddress, setQueueSafeAddress] = useState<string | null>(null);
+
   // Load user proposals statistics
   const loadUserProposalsStats = async (address: string) => {
     if (!safeOffChain) return;
@@ -128,10 +133,68 @@ const ProposalsPage: React.FC<ProposalsPageProps> = ({
     }
   };
 
+  // Connect to the given Safe if another Safe is active
+  const ensureSafeConnected = async (safeAddress: string): Promise<boolean> => {
+    if (!safeOnChain || !safeOffChain) {
+      return false;
+    }
+
+    const currentSafeAddress = safeInfo?.address?.toLowerCase();
+    const requiredSafeAddress = safeAddress.toLowerCase();
+
+    if (
+      currentSafeAddress === requiredSafeAddress &&
+      safeOnChain.currentSafeAddress?.toLowerCase() === requiredSafeAddress
+    ) {
+      console.log("Already connected to the required Safe");
+      return true;
+    }
+
+    console.log(
+      `Need to connect to Safe ${requiredSafeAddress}, current: ${
+        currentSafeAddress || "not connected"
+      }`
+    );
+
+    // Automatically connect to the required Safe
+    try {
+      // Get Safe information to create connection form
+      const safeInfoFromSTS = await safeOffChain.getSafeInfo(safeAddress);
+      const connectionForm: SafeConnectionForm = {
+        safeAddress,
+        owners: safeInfoFromSTS.owners,
+        threshold: safeInfoFromSTS.threshold,
+      };
+
+      await safeOnChain.connectToSafeWithForm(connectionForm);
+
+      // Update Safe information
+      const safeData = await safeOnChain.getCurrentSafeInfo();
+      setSafeInfo({
+        address: safeData.address,
+        owners: safeData.owners,
+        threshold: safeData.threshold,
+        balance: safeData.balance,
+        nonce: safeData.nonce,
+      });
+
+      console.log("Connected to Safe:", safeAddress);
+      return true;
+    } catch (connectError) {
+      showError(
+        `Failed to connect to Safe ${formatAddress(safeAddress)}: ${
+          connectError instanceof Error ? connectError.message : "Unknown error"
+        }`
+      );
+      return false;
+    }
+  };
+
   // Handle user proposal actions
   const handleUserProposalAction = async (
     proposal: UserProposal,
-    action: ProposalAction
+    action: ProposalAction,
+    ownerSafe?: string
   ) => {
     if (!safeOffChain) {
       showError("SafeOffChain not initialized");
@@ -150,54 +213,8 @@ const ProposalsPage: React.FC<ProposalsPageProps> = ({
 
           console.log("Checking Safe connection for signing:", proposal.safe);
 
-          // Check if we're connected to the required Safe address
-          const currentSafeAddressSign = safeInfo?.address?.toLowerCase();
-          const requiredSafeAddressSign = proposal.safe.toLowerCase();
-
-          if (currentSafeAddressSign !== requiredSafeAddressSign) {
-            console.log(
-              `Need to connect to Safe ${requiredSafeAddressSign}, current: ${
-                currentSafeAddressSign || "not connected"
-              }`
-            );
-
-            // Automatically connect to the required Safe
-            try {
-              // Get Safe information to create connection form
-              const safeInfoFromSTS = await safeOffChain.getSafeInfo(
-                proposal.safe
-              );
-              const connectionForm: SafeConnectionForm = {
-                safeAddress: proposal.safe,
-                owners: safeInfoFromSTS.owners,
-                threshold: safeInfoFromSTS.threshold,
-              };
-
-              await safeOnChain.connectToSafeWithForm(connectionForm);
-
-              // Update Safe information
-              const safeData = await safeOnChain.getCurrentSafeInfo();
-              setSafeInfo({
-                address: safeData.address,
-                owners: safeData.owners,
-                threshold: safeData.threshold,
-                balance: safeData.balance,
-                nonce: safeData.nonce,
-              });
-
-              console.log("Connected to Safe for signing:", proposal.safe);
-            } catch (connectError) {
-              showError(
-                `Failed to connect to Safe ${formatAddress(proposal.safe)}: ${
-                  connectError instanceof Error
-                    ? connectError.message
-                    : "Unknown error"
-                }`
-              );
-              return;
-            }
-          } else {
-            console.log("Already connected to the required Safe for signing");
+          if (!(await ensureSafeConnected(proposal.safe))) {
+            return;
           }
 
           // Sign proposal via EIP-712 signature
@@ -214,40 +231,11 @@ const ProposalsPage: React.FC<ProposalsPageProps> = ({
               proposal.safeTxHash
             );
 
-            // 2. Restore SafeTransaction from STS data
-            // Convert value from STS (string in wei) to BigInt
-            let valueFromSTS: bigint = 0n;
-            if (stsTransaction.value && stsTransaction.value !== "0") {
-              try {
-                valueFromSTS = BigInt(stsTransaction.value);
-                console.log(
-                  "Converting value from STS to BigInt for signing:",
-                  stsTransaction.value,
-                  "→",
-                  valueFromSTS.toString()
-                );
-              } catch (parseError) {
-                console.error(
-                  "Error parsing value from STS for signing:",
-                  stsTransaction.value,
-                  parseError
-                );
-                valueFromSTS = 0n;
-              }
-            }
-
-            const safeTransaction = await safeOnChain.createSafeTransaction({
-              to: stsTransaction.to,
-              value: valueFromSTS,
-              data: stsTransaction.data || "0x",
-            });
-
-            // Set nonce from STS
-            if (stsTransaction.nonce !== undefined) {
-              safeTransaction.data.nonce = parseInt(
-                stsTransaction.nonce.toString()
-              );
-            }
+            // 2. Restore SafeTransaction from STS data, checked against safeTxHash
+            const safeTransaction = await safeOnChain.restoreSafeTransaction(
+              stsTransaction,
+              proposal.safeTxHash
+            );
 
             console.log(
               "Signing restored transaction via Safe SDK (EIP-712)..."
@@ -307,54 +295,8 @@ const ProposalsPage: React.FC<ProposalsPageProps> = ({
 
           console.log("Checking Safe connection:", proposal.safe);
 
-          // Check if we're connected to the required Safe address
-          const currentSafeAddress = safeInfo?.address?.toLowerCase();
-          const requiredSafeAddress = proposal.safe.toLowerCase();
-
-          if (currentSafeAddress !== requiredSafeAddress) {
-            console.log(
-              `Need to connect to Safe ${requiredSafeAddress}, current: ${
-                currentSafeAddress || "not connected"
-              }`
-            );
-
-            // Automatically connect to the required Safe
-            try {
-              // Get Safe information to create connection form
-              const safeInfoFromSTS = await safeOffChain.getSafeInfo(
-                proposal.safe
-              );
-              const connectionForm: SafeConnectionForm = {
-                safeAddress: proposal.safe,
-                owners: safeInfoFromSTS.owners,
-                threshold: safeInfoFromSTS.threshold,
-              };
-
-              await safeOnChain.connectToSafeWithForm(connectionForm);
-
-              // Update Safe information
-              const safeData = await safeOnChain.getCurrentSafeInfo();
-              setSafeInfo({
-                address: safeData.address,
-                owners: safeData.owners,
-                threshold: safeData.threshold,
-                balance: safeData.balance,
-                nonce: safeData.nonce,
-              });
-
-              console.log("Connected to Safe:", proposal.safe);
-            } catch (connectError) {
-              showError(
-                `Failed to connect to Safe ${formatAddress(proposal.safe)}: ${
-                  connectError instanceof Error
-                    ? connectError.message
-                    : "Unknown error"
-                }`
-              );
-              return;
-            }
-          } else {
-            console.log("Already connected to the required Safe");
+          if (!(await ensureSafeConnected(proposal.safe))) {
+            return;
           }
 
           // Execute transaction via STS integration
@@ -386,6 +328,140 @@ const ProposalsPage: React.FC<ProposalsPageProps> = ({
           }
           break;
 
+        case ProposalAction.REJECT: {
+          if (!safeOnChain) {
+            showError("Safe Manager not initialized");
+            return;
+          }
+
+          if (!network) {
+            showError("Network not connected");
+            return;
+          }
+
+          if (!(await ensureSafeConnected(proposal.safe))) {
+            return;
+          }
+
+          const rejectionNonce = Number(proposal.nonce);
+          console.log("Creating rejection for nonce:", rejectionNonce);
+
+          const rejection = await safeOnChain.createRejectionTransactionHash(
+            rejectionNonce
+          );
+          const signedRejection = await safeOnChain
+            .getSafeSdk()
+            .signTransaction(rejection.safeTransaction);
+          const signerAddress = await network.signer.getAddress();
+
+          // Rejection for this nonce may already be proposed by another owner
+          let rejectionExists = false;
+          try {
+            await safeOffChain.getTransaction(rejection.transactionHash);
+            rejectionExists = true;
+          } catch (error) {
+            rejectionExists = false;
+          }
+
+          if (rejectionExists) {
+            const rejectionSignature = signedRejection.signatures.get(
+              signerAddress.toLowerCase()
+            );
+            if (!rejectionSignature) {
+              throw new Error("Signature not found in rejection transaction");
+            }
+            await safeOffChain.confirmTransaction(
+              rejection.transactionHash,
+              rejectionSignature.data
+            );
+            showSuccess(
+              `Existing rejection for nonce ${rejectionNonce} confirmed`
+            );
+          } else {
+            await safeOffChain.proposeUniversalResult(
+              proposal.safe,
+              { ...rejection, safeTransaction: signedRejection },
+              signerAddress,
+              "Rejection"
+            );
+            showSuccess(`Rejection proposed for nonce ${rejectionNonce}`);
+          }
+
+          refreshUserProposals();
+          break;
+        }
+
+        case ProposalAction.APPROVE_ON_CHAIN: {
+          if (!safeOnChain) {
+            showError("Safe Manager not initialized");
+            return;
+          }
+
+          if (!(await ensureSafeConnected(proposal.safe))) {
+            return;
+          }
+
+          const approvalTxHash =
+            await safeOnChain.approveTransactionHashOnChain(
+              proposal.safeTxHash
+            );
+          showSuccess(
+            `Hash approved on-chain! Transaction: ${formatAddress(
+              approvalTxHash
+            )}`
+          );
+          break;
+        }
+
+        case ProposalAction.APPROVE_VIA_SAFE: {
+          if (!safeOnChain || !network || !ownerSafe) {
+            showError("Owner Safe is not available");
+            return;
+          }
+
+          // Parent Safe proposes approveHash() on the child Safe
+          if (!(await ensureSafeConnected(ownerSafe))) {
+            return;
+          }
+
+          const onChainNonce = await safeOnChain.getOnChainNonce(ownerSafe);
+          let parentNonce = onChainNonce;
+          try {
+            parentNonce = Math.max(
+              onChainNonce,
+              await safeOffChain.getNextNonce(ownerSafe)
+            );
+          } catch (error) {
+            console.warn("Failed to get STS nonce, using on-chain:", error);
+          }
+
+          const approval =
+            await safeOnChain.createNestedApprovalTransactionHash(
+              proposal.safe,
+              proposal.safeTxHash,
+              parentNonce
+            );
+          const signedApproval = await safeOnChain
+            .getSafeSdk()
+            .signTransaction(approval.safeTransaction);
+          const signerAddress = await network.signer.getAddress();
+
+          await safeOffChain.proposeUniversalResult(
+            ownerSafe,
+            { ...approval, safeTransaction: signedApproval },
+            signerAddress,
+            `Approve ${formatAddress(proposal.safe)} transaction`
+          );
+
+          showSuccess(
+            `Approval proposed in owner Safe ${formatAddress(
+              ownerSafe
+            )}. Execute it there to confirm this transaction.`
+          );
+          refreshUserProposals();
+          break;
+        }
+
         case ProposalAction.VIEW:
           // Show detailed proposal information
           console.log("Proposal details:", proposal);
@@ -673,10 +749,41 @@ const ProposalsPage: React.FC<ProposalsPageProps> = ({
                           Safe Contract
                         </div>
                       </div>
-                      <div className="text-blue-600 text-sm">
-                        Create Proposal
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setQueueSafeAddress(
+                              queueSafeAddress === safeAddress
+                                ? null
+                                : safeAddress
+                            );
+                          }}
+                          className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200 transition-colors"
+                        >
+                          {queueSafeAddress === safeAddress
+                            ? "Hide Queue"
+                            : "Queue"}
+                        </button>
+                        <div className="text-blue-600 text-sm">
+                          Create Proposal
+                        </div>
                       </div>
                     </div>
+                    {queueSafeAddress === safeAddress && (
+                      <div
+                        onClick={(e) => e.stopPropagation()}
+                        className="mt-4 cursor-default"
+                      >
+                        <TransactionQueue
+                          safeAddress={safeAddress}
+                          safeOnChain={safeOnChain}
+                          safeOffChain={safeOffChain}
+                          onProposalAction={handleUserProposalAction}
+                          refreshTrigger={userProposalsRefresh}
+                        />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -698,12 +805,17 @@ const ProposalsPage: React.FC<ProposalsPageProps> = ({
           <div>
             <UserProposals
               userAddress={userAddress}
+              safeOnChain={safeOnChain}
               onProposalAction={handleUserProposalAction}
               refreshTrigger={userProposalsRefresh}
               onSingleProposalUpdate={handleSingleProposalUpdate}
               className=""
             />
           </div>
+
+          <SelectorDatabaseSettings
+            onUpdated={() => setUserProposalsRefresh((prev) => prev + 1)}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,121 @@
+/**
+ * Direct call of a view/pure function with decoded outputs, no proposal
+ */
+
+import React, { useState, useEffect } from "react";
+import { FunctionFormData, ParsedFunction } from "../lib/contract-types";
+import { DecodedArgument } from "../lib/calldata-decoder";
+import SafeOnChain from "../lib/onchain";
+import { TokenMetadata } from "../lib/token-metadata";
+import { ParameterForm } from "./ParameterForm";
+
+interface ReadFunctionCallProps {
+  contractAddress: string;
+  selectedFunction: ParsedFunction;
+  safeOnChain: SafeOnChain;
+  safeAddress?: string; // Offered as msg.sender of the call
+}
+
+export const ReadFunctionCall: React.FC<ReadFunctionCallProps> = ({
+  contractAddress,
+  selectedFunction,
+  safeOnChain,
+  safeAddress,
+}) => {
+  const [formData, setFormData] = useState<FunctionFormData>({
+    parameters: {},
+    ethValue: "0",
+  });
+  const [fromSafe, setFromSafe] = useState<boolean>(!!safeAddress);
+  const [calling, setCalling] = useState<boolean>(false);
+  const [outputs, setOutputs] = useState<DecodedArgument[] | null>(null);
+  const [error, setError] = useState<string>("");
+  const [token, setToken] = useState<TokenMetadata | null>(null);
+
+  useEffect(() => {
+    safeOnChain.getTokenMetadata(contractAddress).then(setToken);
+  }, [safeOnChain, contractAddress]);
+
+  const handleCall = async () => {
+    setCalling(true);
+    setError("");
+    setOutputs(null);
+
+    try {
+      const result = await safeOnChain.callReadOnlyFunction(
+        contractAddress,
+        selectedFunction,
+        formData,
+        fromSafe ? safeAddress : undefined
+      );
+      setOutputs(result);
+    } catch (error: any) {
+      console.error("Read call error:", error);
+      setError(error.message || "Call failed");
+    } finally {
+      setCalling(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-4">
+      <ParameterForm
+        selectedFunction={selectedFunction}
+        onFormChange={setFormData}
+        formData={formData}
+        token={token}
+      />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={handleCall}
+          disabled={calling}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {calling ? "Calling..." : "Call"}
+        </button>
+        {safeAddress && (
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={fromSafe}
+              onChange={(e) => setFromSafe(e.target.checked)}
+              className="mr-2"
+            />
+            Call from Safe address
+          </label>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded break-all">
+          {error}
+        </div>
+      )}
+
+      {outputs && (
+        <div className="p-3 bg-white border rounded text-sm space-y-1">
+          <div className="font-medium text-gray-700">Result:</div>
+          {outputs.length === 0 ? (
+            <div className="text-gray-500">Function returns no values</div>
+          ) : (
+            outputs.map((output, index) => (
+              <div key={index} className="flex gap-2">
+                <span className="shrink-0 text-gray-700">
+                  {output.name}{" "}
+                  <span className="text-gray-400 font-mono">
+                    ({output.type})
+                  </span>
+                  :
+                </span>
+                <span className="font-mono break-all text-gray-900">
+                  {output.value}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+/**
+ * Native and ERC20 balances of the connected Safe with transfer shortcuts
+ */
+
+import React, { useState, useEffect } from "react";
+import SafeOnChain from "../lib/onchain";
+import { SafeAsset, SafeAssetsResult } from "../lib/safe-assets";
+import { formatAddress } from "../lib/safe-common";
+
+interface SafeAssetsPanelProps {
+  safeOnChain: SafeOnChain;
+  safeAddress: string;
+  onSend: (asset: SafeAsset) => void; // Prefills a transfer proposal
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<SafeAssetsResult["source"], string> = {
+  sts: "Safe Transaction Service",
+  provider: "RPC (Transfer logs and token list)",
+};
+
+export const SafeAssetsPanel: React.FC<SafeAssetsPanelProps> = ({
+  safeOnChain,
+  safeAddress,
+  onSend,
+  className = "",
+}) => {
+  const [result, setResult] = useState<SafeAssetsResult | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  const loadAssets = async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      setResult(await safeOnChain.getSafeAssets());
+    } catch (error: any) {
+      console.error("Safe assets loading error:", error);
+      setError(error.message || "Failed to load assets");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setResult(null);
+    loadAssets();
+  }, [safeOnChain, safeAddress]);
+
+  return (
+    <div className={`p-6 bg-white rounded-lg shadow ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Assets</h2>
+        <button
+          onClick={loadAssets}
+          disabled={loading}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm disabled:opacity-50"
+        >
+          {loading ? "Loading..." : "Refresh"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded">
+          {error}
+        </div>
+      )}
+
+      {!result && loading && (
+        <div className="text-sm text-gray-500">Loading balances...</div>
+      )}
+
+      {result && (
+        <>
+          {result.assets.length === 0 ? (
+            <div className="text-sm text-gray-500">No assets found</div>
+          ) : (
+            <div className="divide-y border rounded-lg">
+              {result.assets.map((asset) => (
+                <div
+                  key={asset.tokenAddress || "native"}
+                  className="flex items-center justify-between gap-4 p-3"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900">
+                      {asset.symbol}
+                      {asset.name && (
+                        <span className="ml-2 text-sm font-normal text-gray-500">
+                          {asset.name}
+                        </span>
+                      )}
+                    </div>
+                    <div
+                      className="text-xs text-gray-500 font-mono"
+                      title={asset.tokenAddress || undefined}
+                    >
+                      {asset.tokenAddress
+                        ? formatAddress(asset.tokenAddress)
+                        : "Native currency"}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <span className="font-mono text-sm text-gray-900 break-all">
+                      {asset.formattedBalance}
+                    </span>
+                    {asset.tokenAddress && (
+                      <button
+                        onClick={() => onSend(asset)}
+                        disabled={asset.balance === 0n}
+                        className="px-3 py-1 bg-purple-100 text-purple-700 rounded-md text-sm font-medium hover:bg-purple-200 disabled:opacity-50"
+                      >
+                        Send
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="mt-2 text-xs text-gray-400">
+            Source: {SOURCE_LABELS[result.source]}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,326 @@
+import React, { useState, useEffect } from "react";
+import SafeOnChain, {
+  OwnerManagementAction,
+  OwnerManagementResult,
+} from "../lib/onchain";
+import { UniversalOperationResult } from "../lib/offchain";
+
+interface SafeSettingsProps {
+  safeOnChain: SafeOnChain;
+  owners: string[];
+  threshold: number;
+  userAddress?: string;
+  getNextNonce: () => Promise<number>;
+  onSignAndPropose: (
+    result: UniversalOperationResult,
+    origin: string
+  ) => Promise<void>;
+  className?: string;
+}
+
+type SettingsTab = "addOwner" | "removeOwner" | "swapOwner" | "changeThreshold";
+
+const TABS: { key: SettingsTab; label: string }[] = [
+  { key: "addOwner", label: "Add Owner" },
+  { key: "removeOwner", label: "Remove Owner" },
+  { key: "swapOwner", label: "Swap Owner" },
+  { key: "changeThreshold", label: "Change Threshold" },
+];
+
+const SafeSettings: React.FC<SafeSettingsProps> = ({
+  safeOnChain,
+  owners,
+  threshold,
+  userAddress,
+  getNextNonce,
+  onSignAndPropose,
+  className = "",
+}) => {
+  const [activeTab, setActiveTab] = useState<SettingsTab>("addOwner");
+  const [newOwner, setNewOwner] = useState("");
+  const [selectedOwner, setSelectedOwner] = useState("");
+  const [newThreshold, setNewThreshold] = useState<number>(threshold);
+  const [result, setResult] = useState<OwnerManagementResult | null>(null);
+  const [loading, setLoading] = useState<"preview" | "propose" | null>(null);
+  const [error, setError] = useState("");
+
+  // Reset form when tab or Safe settings change
+  useEffect(() => {
+    setNewOwner("");
+    setSelectedOwner(owners[0] || "");
+    setNewThreshold(threshold);
+    setResult(null);
+    setError("");
+  }, [activeTab, owners, threshold]);
+
+  // Owners count after the selected change, used to limit threshold options
+  const ownersAfterChange =
+    activeTab === "addOwner"
+      ? owners.length + 1
+      : activeTab === "removeOwner"
+      ? owners.length - 1
+      : owners.length;
+
+  const buildAction = (): OwnerManagementAction => {
+    switch (activeTab) {
+      case "addOwner":
+        return {
+          type: "addOwner",
+          ownerAddress: newOwner.trim(),
+          threshold: newThreshold,
+        };
+      case "removeOwner":
+        return {
+          type: "removeOwner",
+          ownerAddress: selectedOwner,
+          threshold: Math.min(newThreshold, ownersAfterChange),
+        };
+      case "swapOwner":
+        return {
+          type: "swapOwner",
+          oldOwnerAddress: selectedOwner,
+          newOwnerAddress: newOwner.trim(),
+        };
+      case "changeThreshold":
+        return { type: "changeThreshold", threshold: newThreshold };
+    }
+  };
+
+  const handlePreview = async () => {
+    setLoading("preview");
+    setError("");
+    setResult(null);
+
+    try {
+      const nonce = await getNextNonce();
+      const managementResult =
+        await safeOnChain.createOwnerManagementTransactionHash(
+          buildAction(),
+          nonce
+        );
+      setResult(managementResult);
+    } catch (err: any) {
+      console.error("Owner management preview error:", err);
+      setError(err.message || "Failed to build transaction");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handlePropose = async () => {
+    if (!result) return;
+
+    setLoading("propose");
+    setError("");
+
+    try {
+      await onSignAndPropose(result, `Safe Settings: ${result.action.type}`);
+      setResult(null);
+    } catch (err: any) {
+      console.error("Owner management proposal error:", err);
+      setError(err.message || "Failed to propose transaction");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const renderOwnerSelect = (label: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+      </label>
+      <select
+        value={selectedOwner}
+        onChange={(e) => setSelectedOwner(e.target.value)}
+        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+      >
+        {owners.map((owner) => (
+          <option key={owner} value={owner}>
+            {owner}
+            {owner.toLowerCase() === userAddress?.toLowerCase() ? " (You)" : ""}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const renderNewOwnerInput = () => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        New Owner Address
+      </label>
+      <input
+        type="text"
+        value={newOwner}
+        onChange={(e) => setNewOwner(e.target.value)}
+        placeholder="0x..."
+        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+      />
+    </div>
+  );
+
+  const renderThresholdSelect = () => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        New Threshold
+      </label>
+      <select
+        value={Math.min(newThreshold, Math.max(ownersAfterChange, 1))}
+        onChange={(e) => setNewThreshold(parseInt(e.target.value))}
+        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        {Array.from(
+          { length: Math.max(ownersAfterChange, 1) },
+          (_, i) => i + 1
+        ).map((value) => (
+          <option key={value} value={value}>
+            {value} of {ownersAfterChange}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className={`p-6 bg-white rounded-lg shadow ${className}`}>
+      <h2 className="text-xl font-semibold mb-2">⚙️ Safe Settings</h2>
+      <p className="text-gray-600 text-sm mb-4">
+        Owner and threshold changes are Safe transactions and require{" "}
+        {threshold} of {owners.length} signatures.
+      </p>
+
+      {/* Tabs */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {TABS.map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => setActiveTab(tab.key)}
+            className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+              activeTab === tab.key
+                ? "bg-blue-100 text-blue-700"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Form */}
+      <div className="space-y-4">
+        {activeTab === "addOwner" && (
+          <>
+            {renderNewOwnerInput()}
+            {renderThresholdSelect()}
+          </>
+        )}
+
+        {activeTab === "removeOwner" && (
+          <>
+            {renderOwnerSelect("Owner to Remove")}
+            {ownersAfterChange > 0 ? (
+              renderThresholdSelect()
+            ) : (
+              <p className="text-sm text-red-600">
+                The last owner cannot be removed
+              </p>
+            )}
+          </>
+        )}
+
+        {activeTab === "swapOwner" && (
+          <>
+            {renderOwnerSelect("Owner to Replace")}
+            {renderNewOwnerInput()}
+          </>
+        )}
+
+        {activeTab === "changeThreshold" && renderThresholdSelect()}
+
+        <button
+          onClick={handlePreview}
+          disabled={loading !== null || ownersAfterChange < 1}
+          className="w-full px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {loading === "preview" ? "Building..." : "Preview Change"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Diff */}
+      {result && (
+        <div className="mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <h3 className="font-semibold text-gray-900 mb-3">Resulting Setup</h3>
+
+          <div className="space-y-1 mb-4">
+            {result.settingsDiff.removedOwners.map((owner) => (
+              <div
+                key={`removed-${owner}`}
+                className="text-sm font-mono text-red-700 bg-red-50 px-2 py-1 rounded line-through"
+              >
+                − {owner}
+              </div>
+            ))}
+            {result.settingsDiff.newOwners.map((owner) => {
+              const isAdded = result.settingsDiff.addedOwners.includes(owner);
+              return (
+                <div
+                  key={owner}
+                  className={`text-sm font-mono px-2 py-1 rounded ${
+                    isAdded
+                      ? "text-green-700 bg-green-50"
+                      : "text-gray-700 bg-white"
+                  }`}
+                >
+                  {isAdded ? "+" : " "} {owner}
+                </div>
+              );
+            })}
+          </div>
+
+          <p className="text-sm">
+            <strong>Threshold:</strong> {result.settingsDiff.currentThreshold}{" "}
+            of {result.settingsDiff.currentOwners.length} →{" "}
+            <span
+              className={
+                result.settingsDiff.newThreshold !==
+                  result.settingsDiff.currentThreshold ||
+                result.settingsDiff.newOwners.length !==
+                  result.settingsDiff.currentOwners.length
+                  ? "font-semibold text-blue-700"
+                  : ""
+              }
+            >
+              {result.settingsDiff.newThreshold} of{" "}
+              {result.settingsDiff.newOwners.length}
+            </span>
+          </p>
+
+          <div className="mt-3 text-xs text-gray-600">
+            <div>
+              <strong>Nonce:</strong> {result.transactionDetails.nonce}
+            </div>
+            <div className="font-mono break-all">
+              <strong>safeTxHash:</strong> {result.transactionHash}
+            </div>
+          </div>
+
+          <button
+            onClick={handlePropose}
+            disabled={loading !== null}
+            className="mt-4 w-full px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+          >
+            {loading === "propose" ? "Signing..." : "Sign & Propose"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SafeSettings;
@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { selectorDatabase } from "../lib/selector-database";
+
+interface SelectorDatabaseSettingsProps {
+  onUpdated?: () => void;
+  className?: string;
+}
+
+// Import of function signatures used to decode calldata of unknown contracts
+const SelectorDatabaseSettings: React.FC<SelectorDatabaseSettingsProps> = ({
+  onUpdated,
+  className = "",
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [input, setInput] = useState("");
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+  const [stats, setStats] = useState(() => selectorDatabase.getStats());
+
+  const refreshStats = () => {
+    setStats(selectorDatabase.getStats());
+    onUpdated?.();
+  };
+
+  const handleImport = () => {
+    try {
+      const added = selectorDatabase.importEntries(input);
+      setMessage({
+        type: "success",
+        text: `Imported ${added} new ${
+          added === 1 ? "signature" : "signatures"
+        }`,
+      });
+      setInput("");
+      refreshStats();
+    } catch (error: any) {
+      setMessage({ type: "error", text: error.message || "Import failed" });
+    }
+  };
+
+  const handleFileImport = async (file: File) => {
+    setInput(await file.text());
+    setMessage(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob(
+      [JSON.stringify(selectorDatabase.exportCustom(), null, 2)],
+      { type: "application/json" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "selectors.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = () => {
+    if (!confirm("Remove all imported signatures?")) return;
+    selectorDatabase.clearCustom();
+    setMessage({ type: "success", text: "Imported signatures removed" });
+    refreshStats();
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow ${className}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div>
+          <h3 className="font-semibold text-gray-900">Selector Database</h3>
+          <p className="text-xs text-gray-500">
+            {stats.bundled} bundled, {stats.custom} imported, {stats.fromAbis}{" "}
+            from loaded contracts
+          </p>
+        </div>
+        <span
+          className={`transform transition-transform ${
+            expanded ? "rotate-180" : ""
+          }`}
+        >
+          ▼
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="p-4 border-t border-gray-200 space-y-3">
+          <p className="text-sm text-gray-600">
+            Signatures are used offline to decode calldata of contracts without
+            a known ABI. Paste one signature per line, a JSON list of signatures
+            or a selector → signatures JSON object.
+          </p>
+
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            rows={5}
+            placeholder={"transfer(address,uint256)\nsetFee(uint24)"}
+            className="w-full p-2 border border-gray-300 rounded-lg font-mono text-xs"
+          />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleImport}
+              disabled={!input.trim()}
+              className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              Import
+            </button>
+            <label className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200 cursor-pointer">
+              Load file
+              <input
+                type="file"
+                accept=".json,.txt"
+                className="hidden"
+                onChange={(e) =>
+                  e.target.files?.[0] && handleFileImport(e.target.files[0])
+                }
+              />
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={stats.custom === 0}
+              className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200 disabled:opacity-50"
+            >
+              Export imported
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={stats.custom === 0}
+              className="px-3 py-1 text-red-600 rounded text-sm hover:bg-red-50 disabled:opacity-50"
+            >
+              Clear imported
+            </button>
+          </div>
+
+          {message && (
+            <div
+              className={`p-2 rounded text-sm ${
+                message.type === "success"
+                  ? "bg-green-50 text-green-700"
+                  : "bg-red-50 text-red-700"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectorDatabaseSettings;
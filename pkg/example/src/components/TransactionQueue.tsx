@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from "react";
+
+import SafeOnChain from "../lib/onchain";
+import SafeOffChain, { UserProposal } from "../lib/offchain";
+import { formatAddress, formatEthValue } from "../lib/safe-common";
+import { CalldataDecoder } from "../lib/calldata-decoder";
+import {
+  OnChainApprovals,
+  SafeNonceQueue,
+  QueueNonceEntry,
+  buildNonceQueue,
+  getConfirmedOwners,
+  isRejectionProposal,
+} from "../lib/proposal-utils";
+import { ProposalAction } from "./UserProposals";
+
+interface TransactionQueueProps {
+  safeAddress: string;
+  safeOnChain: SafeOnChain | null;
+  safeOffChain: SafeOffChain | null;
+  onProposalAction?: (
+    proposal: UserProposal,
+    action: ProposalAction
+  ) => Promise<void>;
+  refreshTrigger?: number;
+  className?: string;
+}
+
+const TransactionQueue: React.FC<TransactionQueueProps> = ({
+  safeAddress,
+  safeOnChain,
+  safeOffChain,
+  onProposalAction,
+  refreshTrigger,
+  className = "",
+}) => {
+  const [queue, setQueue] = useState<SafeNonceQueue | null>(null);
+  const [onChainApprovals, setOnChainApprovals] = useState<OnChainApprovals>(
+    {}
+  );
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+  const [executing, setExecuting] = useState<string | null>(null);
+
+  // Load STS proposals and on-chain nonce of the Safe
+  const loadQueue = async () => {
+    if (!safeOnChain || !safeOffChain) return;
+
+    console.log("Loading transaction queue for:", safeAddress);
+    setLoading(true);
+    setError("");
+
+    try {
+      const [proposals, onChainNonce] = await Promise.all([
+        safeOffChain.getSafeProposals(safeAddress),
+        safeOnChain.getOnChainNonce(safeAddress),
+      ]);
+
+      // approveHash() approvals count toward the threshold like signatures
+      const approvals: OnChainApprovals = {};
+      await Promise.all(
+        proposals
+          .filter((p) => !p.isExecuted && Number(p.nonce) >= onChainNonce)
+          .map(async (p) => {
+            try {
+              approvals[p.safeTxHash] = await safeOnChain.getOnChainApprovals(
+                safeAddress,
+                p.safeTxHash
+              );
+            } catch (error) {
+              console.warn("Failed to load on-chain approvals:", error);
+            }
+          })
+      );
+
+      const safeQueue = buildNonceQueue(
+        safeAddress,
+        proposals,
+        onChainNonce,
+        approvals
+      );
+      setOnChainApprovals(approvals);
+      setQueue(safeQueue);
+
+      console.log("Transaction queue loaded:", {
+        onChainNonce,
+        queued: safeQueue.entries.length,
+        gaps: safeQueue.gaps,
+        hidden: safeQueue.hiddenCount,
+      });
+    } catch (err: any) {
+      console.error("Error loading transaction queue:", err);
+      setError(err.message || "Failed to load transaction queue");
+      setQueue(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, [safeAddress, safeOnChain, safeOffChain, refreshTrigger]);
+
+  const handleExecute = async (proposal: UserProposal) => {
+    if (!onProposalAction) return;
+
+    setExecuting(proposal.safeTxHash);
+    try {
+      await onProposalAction(proposal, ProposalAction.EXECUTE);
+      await loadQueue();
+    } finally {
+      setExecuting(null);
+    }
+  };
+
+  const renderEntry = (entry: QueueNonceEntry) => (
+    <div
+      key={entry.nonce}
+      className={`border rounded-lg p-3 ${
+        entry.isNext
+          ? "border-green-300 bg-green-50"
+          : entry.isGap
+          ? "border-dashed border-red-300 bg-red-50"
+          : "border-gray-200"
+      }`}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <span className="font-medium text-gray-900">Nonce {entry.nonce}</span>
+        {entry.isNext && (
+          <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded text-xs">
+            Next
+          </span>
+        )}
+        {entry.hasConflict && (
+          <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded text-xs">
+            Conflict: {entry.proposals.length} proposals
+          </span>
+        )}
+        {entry.isGap && (
+          <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded text-xs">
+            Gap
+          </span>
+        )}
+      </div>
+
+      {entry.isGap ? (
+        <p className="text-sm text-red-700">
+          No proposal uses this nonce. Later transactions cannot be executed
+          until it is filled.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {entry.proposals.map((proposal) => {
+            const isExecutable =
+              entry.executableProposal?.safeTxHash === proposal.safeTxHash;
+            const confirmationCount = getConfirmedOwners(
+              proposal,
+              onChainApprovals[proposal.safeTxHash]
+            ).length;
+
+            return (
+              <div
+                key={proposal.safeTxHash}
+                className="flex items-center justify-between p-2 bg-white border border-gray-100 rounded"
+              >
+                <div className="min-w-0 text-sm">
+                  <div className="font-medium text-gray-900">
+                    {isRejectionProposal(proposal)
+                      ? "Rejection"
+                      : formatAddress(proposal.to)}
+                    {proposal.value !== "0" && (
+                      <span className="ml-2 text-green-600">
+                        {formatEthValue(proposal.value)} ETH
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-600 font-mono truncate">
+                    {CalldataDecoder.getSummary(
+                      CalldataDecoder.decodeProposal(proposal)
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 font-mono truncate">
+                    {proposal.safeTxHash}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 ml-3">
+                  <span
+                    className={`text-sm ${
+                      confirmationCount >= proposal.confirmationsRequired
+                        ? "text-green-600"
+                        : "text-orange-600"
+                    }`}
+                  >
+                    {confirmationCount} / {proposal.confirmationsRequired}
+                  </span>
+                  {isExecutable && (
+                    <>
+                      <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded text-xs">
+                        Executable now
+                      </span>
+                      {onProposalAction && (
+                        <button
+                          onClick={() => handleExecute(proposal)}
+                          disabled={executing !== null}
+                          className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {executing === proposal.safeTxHash
+                            ? "Executing..."
+                            : "Execute"}
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      className={`p-4 bg-gray-50 border border-gray-200 rounded-lg ${className}`}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-900">Transaction Queue</h3>
+        <button
+          onClick={loadQueue}
+          disabled={loading}
+          className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200 disabled:opacity-50"
+        >
+          {loading ? "Loading..." : "Update"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {queue && (
+        <>
+          <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-3">
+            <div>
+              <span className="font-medium">On-chain nonce:</span>{" "}
+              {queue.onChainNonce}
+            </div>
+            {queue.gaps.length > 0 && (
+              <div className="text-red-600">
+                <span className="font-medium">Missing nonces:</span>{" "}
+                {queue.gaps.join(", ")}
+              </div>
+            )}
+            {queue.hiddenCount > 0 && (
+              <div className="text-gray-500">
+                {queue.hiddenCount} executed or replaced proposals hidden
+              </div>
+            )}
+          </div>
+
+          {queue.entries.length > 0 ? (
+            <div className="space-y-3">{queue.entries.map(renderEntry)}</div>
+          ) : (
+            <div className="text-center py-4 text-gray-500">
+              ✨ No queued transactions
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TransactionQueue;
@@ -0,0 +1,391 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { ethers } from "ethers";
+import SafeOnChain from "../lib/onchain";
+import { UniversalOperationResult } from "../lib/offchain";
+import { SafeAsset } from "../lib/safe-assets";
+import { TransferRequest, sumTransfers } from "../lib/transfers";
+import { BatchedCallsList } from "./BatchBuilder";
+import { PayoutCsvImport } from "./PayoutCsvImport";
+import { NftTransfer } from "./NftTransfer";
+
+interface TransferPanelProps {
+  safeOnChain: SafeOnChain;
+  safeAddress: string;
+  getNextNonce: () => Promise<number>;
+  onSignAndPropose: (
+    result: UniversalOperationResult,
+    origin: string,
+    options?: { stayOnPage?: boolean }
+  ) => Promise<void>;
+  className?: string;
+}
+
+// Recipient row, amount in token units of the selected asset
+interface TransferRow {
+  id: number;
+  assetKey: string; // Lowercase token address or "native"
+  recipient: string;
+  amount: string;
+}
+
+type TransferMode = "recipients" | "csv" | "nft";
+
+const MODES: { key: TransferMode; label: string }[] = [
+  { key: "recipients", label: "Recipients" },
+  { key: "csv", label: "CSV Import" },
+  { key: "nft", label: "NFTs" },
+];
+
+const getAssetKey = (asset: SafeAsset) =>
+  asset.tokenAddress?.toLowerCase() || "native";
+
+const TransferPanel: React.FC<TransferPanelProps> = ({
+  safeOnChain,
+  safeAddress,
+  getNextNonce,
+  onSignAndPropose,
+  className = "",
+}) => {
+  const [assets, setAssets] = useState<SafeAsset[]>([]);
+  const [rows, setRows] = useState<TransferRow[]>([
+    { id: 0, assetKey: "native", recipient: "", amount: "" },
+  ]);
+  const [nextRowId, setNextRowId] = useState<number>(1);
+  const [result, setResult] = useState<UniversalOperationResult | null>(null);
+  const [loading, setLoading] = useState<
+    "assets" | "preview" | "propose" | null
+  >(null);
+  const [error, setError] = useState("");
+  const [mode, setMode] = useState<TransferMode>("recipients");
+
+  useEffect(() => {
+    setLoading("assets");
+    safeOnChain
+      .getSafeAssets()
+      .then(({ assets }) => setAssets(assets))
+      .catch((err) => {
+        console.error("Safe assets loading error:", err);
+        setError(err.message || "Failed to load Safe balances");
+      })
+      .finally(() => setLoading(null));
+  }, [safeOnChain, safeAddress]);
+
+  // Any edit invalidates the created transaction
+  const updateRows = (newRows: TransferRow[]) => {
+    setRows(newRows);
+    setResult(null);
+    setError("");
+  };
+
+  const updateRow = (id: number, changes: Partial<TransferRow>) =>
+    updateRows(
+      rows.map((row) => (row.id === id ? { ...row, ...changes } : row))
+    );
+
+  const addRow = () => {
+    const lastAsset = rows[rows.length - 1]?.assetKey || "native";
+    updateRows([
+      ...rows,
+      { id: nextRowId, assetKey: lastAsset, recipient: "", amount: "" },
+    ]);
+    setNextRowId(nextRowId + 1);
+  };
+
+  const removeRow = (id: number) =>
+    updateRows(rows.filter((row) => row.id !== id));
+
+  const findAsset = (key: string) =>
+    assets.find((asset) => getAssetKey(asset) === key);
+
+  // Rows converted to smallest units, throws with the row number on bad input
+  const buildTransfers = (): TransferRequest[] =>
+    rows.map((row, index) => {
+      const asset = findAsset(row.assetKey);
+      if (!asset) {
+        throw new Error(`Transfer ${index + 1}: select an asset`);
+      }
+
+      let amount: bigint;
+      try {
+        amount = ethers.parseUnits(row.amount.trim() || "0", asset.decimals);
+      } catch (err) {
+        throw new Error(
+          `Transfer ${index + 1}: amount must be a number with at most ${
+            asset.decimals
+          } decimal places`
+        );
+      }
+
+      return {
+        tokenAddress: asset.tokenAddress,
+        recipient: row.recipient.trim(),
+        amount,
+      };
+    });
+
+  // Totals per asset against the loaded balances, invalid rows are skipped
+  const totals = useMemo(() => {
+    const transfers: TransferRequest[] = [];
+    rows.forEach((row) => {
+      const asset = findAsset(row.assetKey);
+      if (!asset) return;
+      try {
+        transfers.push({
+          tokenAddress: asset.tokenAddress,
+          recipient: row.recipient,
+          amount: ethers.parseUnits(row.amount.trim() || "0", asset.decimals),
+        });
+      } catch (err) {
+        // Reported on preview
+      }
+    });
+
+    return Array.from(sumTransfers(transfers).entries()).map(
+      ([key, total]) => ({ asset: findAsset(key)!, amount: total.amount })
+    );
+  }, [rows, assets]);
+
+  const hasShortfall = totals.some(
+    ({ asset, amount }) => amount > asset.balance
+  );
+
+  const handlePreview = async () => {
+    setLoading("preview");
+    setError("");
+    setResult(null);
+
+    try {
+      const transfers = buildTransfers();
+      const nonce = await getNextNonce();
+      setResult(
+        await safeOnChain.createTransferTransactionHash(transfers, nonce)
+      );
+    } catch (err: any) {
+      console.error("Transfer preview error:", err);
+      setError(err.message || "Failed to build transfer");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handlePropose = async () => {
+    if (!result) return;
+
+    setLoading("propose");
+    setError("");
+
+    try {
+      await onSignAndPropose(
+        result,
+        rows.length > 1 ? `Batch payout: ${rows.length} transfers` : "Transfer"
+      );
+      setResult(null);
+      updateRows([
+        { id: nextRowId, assetKey: "native", recipient: "", amount: "" },
+      ]);
+      setNextRowId(nextRowId + 1);
+    } catch (err: any) {
+      console.error("Transfer proposal error:", err);
+      setError(err.message || "Failed to propose transfer");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  return (
+    <div className={`p-6 bg-white rounded-lg shadow ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold">💸 Transfer</h2>
+        <div className="flex space-x-2">
+          {MODES.map((item) => (
+            <button
+              key={item.key}
+              onClick={() => setMode(item.key)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                mode === item.key
+                  ? "bg-purple-100 text-purple-700"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-gray-600 text-sm mb-4">
+        Send native coin, ERC20 tokens or NFTs from the Safe. Several recipients
+        are paid out in one batch transaction.
+      </p>
+
+      {mode === "nft" ? (
+        <NftTransfer
+          safeOnChain={safeOnChain}
+          safeAddress={safeAddress}
+          getNextNonce={getNextNonce}
+          onSignAndPropose={onSignAndPropose}
+        />
+      ) : mode === "csv" ? (
+        <PayoutCsvImport
+          safeOnChain={safeOnChain}
+          getNextNonce={getNextNonce}
+          onSignAndPropose={onSignAndPropose}
+        />
+      ) : (
+        <>
+          {loading === "assets" && (
+            <div className="text-sm text-gray-500 mb-4">
+              Loading balances...
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {rows.map((row, index) => {
+              const asset = findAsset(row.assetKey);
+              return (
+                <div
+                  key={row.id}
+                  className="grid grid-cols-1 md:grid-cols-12 gap-2 items-start"
+                >
+                  <select
+                    value={row.assetKey}
+                    onChange={(e) =>
+                      updateRow(row.id, { assetKey: e.target.value })
+                    }
+                    className="md:col-span-3 p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {assets.map((asset) => (
+                      <option
+                        key={getAssetKey(asset)}
+                        value={getAssetKey(asset)}
+                      >
+                        {asset.symbol}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={row.recipient}
+                    onChange={(e) =>
+                      updateRow(row.id, { recipient: e.target.value })
+                    }
+                    placeholder="Recipient 0x..."
+                    className="md:col-span-5 p-2 border border-gray-300 rounded-lg font-mono text-sm"
+                  />
+                  <div className="md:col-span-3">
+                    <input
+                      type="text"
+                      value={row.amount}
+                      onChange={(e) =>
+                        updateRow(row.id, { amount: e.target.value })
+                      }
+                      placeholder={`Amount${
+                        asset ? ` in ${asset.symbol}` : ""
+                      }`}
+                      className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+                    />
+                    {asset && (
+                      <button
+                        onClick={() =>
+                          updateRow(row.id, { amount: asset.formattedBalance })
+                        }
+                        className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        Max: {asset.formattedBalance}
+                      </button>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => removeRow(row.id)}
+                    disabled={rows.length === 1}
+                    className="md:col-span-1 p-2 text-red-600 hover:text-red-800 text-sm disabled:opacity-30"
+                    title={`Remove transfer ${index + 1}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              );
+            })}
+
+            <button
+              onClick={addRow}
+              className="text-sm text-purple-600 hover:text-purple-800 underline"
+            >
+              + Add recipient
+            </button>
+
+            {/* Totals */}
+            {totals.length > 0 && (
+              <div className="p-3 bg-gray-50 border rounded-lg text-sm space-y-1">
+                {totals.map(({ asset, amount }) => (
+                  <div
+                    key={getAssetKey(asset)}
+                    className={`flex justify-between ${
+                      amount > asset.balance ? "text-red-700" : "text-gray-700"
+                    }`}
+                  >
+                    <span>Total {asset.symbol}</span>
+                    <span className="font-mono">
+                      {ethers.formatUnits(amount, asset.decimals)} of{" "}
+                      {asset.formattedBalance} available
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={handlePreview}
+              disabled={loading !== null || assets.length === 0 || hasShortfall}
+              className="w-full px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading === "preview"
+                ? "Building..."
+                : hasShortfall
+                ? "Insufficient Safe balance"
+                : "Create Transfer"}
+            </button>
+          </div>
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm break-all">
+              {error}
+            </div>
+          )}
+
+          {result && (
+            <div className="mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3 text-sm">
+              {result.batchedCalls ? (
+                <BatchedCallsList calls={result.batchedCalls} />
+              ) : (
+                <div>
+                  <strong>To:</strong>{" "}
+                  <span className="font-mono">
+                    {result.transactionDetails.to}
+                  </span>
+                </div>
+              )}
+              <div className="text-xs text-gray-600">
+                <div>
+                  <strong>Nonce:</strong> {result.transactionDetails.nonce}
+                </div>
+                <div className="font-mono break-all">
+                  <strong>safeTxHash:</strong> {result.transactionHash}
+                </div>
+              </div>
+
+              <button
+                onClick={handlePropose}
+                disabled={loading !== null}
+                className="w-full px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+              >
+                {loading === "propose" ? "Signing..." : "Sign & Propose"}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TransferPanel;
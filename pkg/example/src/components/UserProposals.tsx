@@ -1,46 +1,54 @@
 import React, { useState, useEffect } from "react";
+import SafeOnChain from "../lib/onchain";
 import SafeOffChain, {
   UserProposal,
   UserProposalsFilter,
 } from "../lib/offchain";
 import { formatAddress, formatEthValue } from "../lib/safe-common";
+import { CalldataDecoder } from "../lib/calldata-decoder";
+import {
+  OnChainApprovals,
+  ProposalNonceGroup,
+  groupProposalsByNonce,
+  getLeadingProposal,
+  isRejectionProposal,
+  getConfirmedOwners,
+} from "../lib/proposal-utils";
+import ProposalDetails from "./ProposalDetails";
 
 export enum ProposalAction {
   SIGN = "sign",
   EXECUTE = "execute",
+  REJECT = "reject",
+  APPROVE_VIA_SAFE = "approveViaSafe",
+  APPROVE_ON_CHAIN = "approveOnChain",
   VIEW = "view",
 }
 
 interface UserProposalsProps {
   userAddress: string;
+  safeOnChain?: SafeOnChain | null; // Enables local signature verification
   className?: string;
-  onProposalAction?: (proposal: UserProposal, action: ProposalAction) => void;
+  onProposalAction?: (
+    proposal: UserProposal,
+    action: ProposalAction,
+    ownerSafe?: string // Parent Safe for APPROVE_VIA_SAFE
+  ) => void;
   refreshTrigger?: number; // For forced refresh from outside
   onSingleProposalUpdate?: (safeTxHash: string) => void; // Function for targeted proposal update
 }
 
-interface ProposalStats {
-  total: number;
-  pending: number;
-  executable: number;
-  executed: number;
-  byStatus: {
-    needsMySignature: number;
-    waitingForOthers: number;
-    readyToExecute: number;
-    executed: number;
-  };
-}
-
 type ProposalFilter =
   | "all"
   | "needsMySignature"
+  | "viaOwnerSafe"
   | "waitingForOthers"
   | "readyToExecute"
   | "executed";
 
 const UserProposals: React.FC<UserProposalsProps> = ({
   userAddress,
+  safeOnChain,
   className = "",
   onProposalAction,
   refreshTrigger,
@@ -48,14 +56,17 @@ const UserProposals: React.FC<UserProposalsProps> = ({
 }) => {
   const [safeOffChain] = useState(() => new SafeOffChain());
   const [proposals, setProposals] = useState<UserProposal[]>([]);
-  const [stats, setStats] = useState<ProposalStats | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>("");
   const [filter, setFilter] = useState<ProposalFilter>("all");
   const [expandedProposal, setExpandedProposal] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<{
-    [txHash: string]: "signing" | "executing";
+    [txHash: string]: "signing" | "executing" | "rejecting" | "approving";
   }>({}); // For tracking actions on specific proposals
+  const [ownedSafes, setOwnedSafes] = useState<string[]>([]); // Safes owned directly by the user
+  const [onChainApprovals, setOnChainApprovals] = useState<OnChainApprovals>(
+    {}
+  ); // Owners that approved the hash via approveHash()
   const [updatingProposals, setUpdatingProposals] = useState<Set<string>>(
     new Set()
   ); // For tracking proposals being updated
@@ -70,27 +81,24 @@ const UserProposals: React.FC<UserProposalsProps> = ({
     try {
       console.log("📥 Loading user proposals:", userAddress);
 
-      // Get proposals statistics
-      const statsData = await safeOffChain.getUserProposalsStats(userAddress);
-      setStats(statsData);
-
       // Get all user proposals
       const userProposalsFilter: UserProposalsFilter = {
         userAddress,
+        includeNestedSafes: true,
         sortBy: "submissionDate",
         sortOrder: "desc",
         limit: 50,
       };
 
-      const userProposals = await safeOffChain.getUserProposals(
-        userProposalsFilter
-      );
+      const [userProposals, userSafes] = await Promise.all([
+        safeOffChain.getUserProposals(userProposalsFilter),
+        safeOffChain.getUserSafes(userAddress),
+      ]);
       setProposals(userProposals);
+      setOwnedSafes(userSafes);
+      loadOnChainApprovals(userProposals);
 
-      console.log("Proposals loaded:", {
-        stats: statsData,
-        proposals: userProposals.length,
-      });
+      console.log("Proposals loaded:", userProposals.length);
     } catch (err) {
       console.error("Proposals loading error:", err);
       setError(err instanceof Error ? err.message : "Unknown error");
@@ -99,6 +107,39 @@ const UserProposals: React.FC<UserProposalsProps> = ({
     }
   };
 
+  // Load on-chain approveHash approvals of pending proposals
+  const loadOnChainApprovals = async (pendingProposals: UserProposal[]) => {
+    if (!safeOnChain) return;
+
+    const approvals: OnChainApprovals = {};
+    await Promise.all(
+      pendingProposals
+        .filter((p) => !p.isExecuted)
+        .map(async (p) => {
+          try {
+            approvals[p.safeTxHash] = await safeOnChain.getOnChainApprovals(
+              p.safe,
+              p.safeTxHash
+            );
+          } catch (error) {
+            console.warn("Failed to load on-chain approvals:", error);
+          }
+        })
+    );
+
+    setOnChainApprovals(approvals);
+  };
+
+  // Confirmations from STS together with on-chain approvals
+  const getConfirmationCount = (proposal: UserProposal): number =>
+    getConfirmedOwners(proposal, onChainApprovals[proposal.safeTxHash]).length;
+
+  const hasUserConfirmed = (proposal: UserProposal): boolean =>
+    getConfirmedOwners(
+      proposal,
+      onChainApprovals[proposal.safeTxHash]
+    ).includes(userAddress.toLowerCase());
+
   // Update only one proposal
   const updateSingleProposal = async (
     safeTxHash: string,
@@ -153,15 +194,22 @@ const UserProposals: React.FC<UserProposalsProps> = ({
 
         console.log("Proposal updated:", safeTxHash);
 
-        // Also update statistics (lighter than entire list)
-        if (userAddress) {
+        // Refresh on-chain approvals of this proposal
+        if (safeOnChain && !updatedTransaction.isExecuted) {
           try {
-            const updatedStats = await safeOffChain.getUserProposalsStats(
-              userAddress
+            const approvals = await safeOnChain.getOnChainApprovals(
+              updatedTransaction.safe,
+              safeTxHash
+            );
+            setOnChainApprovals((prev) => ({
+              ...prev,
+              [safeTxHash]: approvals,
+            }));
+          } catch (approvalsError) {
+            console.warn(
+              "Failed to update on-chain approvals:",
+              approvalsError
             );
-            setStats(updatedStats);
-          } catch (statsError) {
-            console.warn("Failed to update statistics:", statsError);
           }
         }
 
@@ -207,46 +255,62 @@ const UserProposals: React.FC<UserProposalsProps> = ({
     loadUserProposals();
   }, [userAddress, refreshTrigger]);
 
-  // Filter proposals by status
-  const getFilteredProposals = (): UserProposal[] => {
-    if (!stats) return proposals;
+  // Proposal of a Safe owned only through one of the user's Safes,
+  // signed by the owner Safe instead of the user directly
+  const isViaOwnerSafe = (proposal: UserProposal): boolean =>
+    !ownedSafes.some(
+      (safe) => safe.toLowerCase() === proposal.safe.toLowerCase()
+    );
+
+  const matchesFilter = (
+    proposal: UserProposal,
+    proposalFilter: ProposalFilter
+  ): boolean => {
+    const hasEnoughSignatures =
+      getConfirmationCount(proposal) >= proposal.confirmationsRequired;
 
-    switch (filter) {
+    switch (proposalFilter) {
       case "needsMySignature":
-        return proposals.filter((p) => {
-          if (p.isExecuted) return false;
-          const userHasSigned = p.confirmations?.some(
-            (conf) => conf.owner.toLowerCase() === userAddress.toLowerCase()
-          );
-          return !userHasSigned;
-        });
+        return (
+          !proposal.isExecuted &&
+          !isViaOwnerSafe(proposal) &&
+          !hasUserConfirmed(proposal)
+        );
+
+      case "viaOwnerSafe":
+        return (
+          !proposal.isExecuted &&
+          isViaOwnerSafe(proposal) &&
+          !hasEnoughSignatures
+        );
 
       case "waitingForOthers":
-        return proposals.filter((p) => {
-          if (p.isExecuted) return false;
-          const userHasSigned = p.confirmations?.some(
-            (conf) => conf.owner.toLowerCase() === userAddress.toLowerCase()
-          );
-          const hasEnoughSignatures =
-            (p.confirmations?.length || 0) >= p.confirmationsRequired;
-          return userHasSigned && !hasEnoughSignatures;
-        });
+        return (
+          !proposal.isExecuted &&
+          hasUserConfirmed(proposal) &&
+          !hasEnoughSignatures
+        );
 
       case "readyToExecute":
-        return proposals.filter((p) => {
-          if (p.isExecuted) return false;
-          return (p.confirmations?.length || 0) >= p.confirmationsRequired;
-        });
+        return !proposal.isExecuted && hasEnoughSignatures;
 
       case "executed":
-        return proposals.filter((p) => p.isExecuted);
+        return proposal.isExecuted;
 
       case "all":
       default:
-        return proposals;
+        return true;
     }
   };
 
+  // Filter proposals by status
+  const getFilteredProposals = (): UserProposal[] =>
+    proposals.filter((p) => matchesFilter(p, filter));
+
+  // Proposals count per filter, from the same checks as the filters
+  const countProposals = (proposalFilter: ProposalFilter): number =>
+    proposals.filter((p) => matchesFilter(p, proposalFilter)).length;
+
   // Get proposal status icon
   const getProposalStatusIcon = (
     proposal: UserProposal
@@ -259,14 +323,19 @@ const UserProposals: React.FC<UserProposalsProps> = ({
       };
     }
 
-    const userHasSigned =
-      proposal.confirmations?.some(
-        (conf) => conf.owner.toLowerCase() === userAddress.toLowerCase()
-      ) || false;
+    const userHasSigned = hasUserConfirmed(proposal);
     const hasEnoughSignatures =
-      (proposal.confirmations?.length || 0) >= proposal.confirmationsRequired;
+      getConfirmationCount(proposal) >= proposal.confirmationsRequired;
+
+    if (isViaOwnerSafe(proposal) && !hasEnoughSignatures) {
+      return {
+        icon: "Safe",
+        color: "text-purple-600",
+        text: "Requires approval via owner Safe",
+      };
+    }
 
-    if (!userHasSigned) {
+    if (!userHasSigned && !isViaOwnerSafe(proposal)) {
       return {
         icon: "Sign",
         color: "text-orange-600",
@@ -292,7 +361,8 @@ const UserProposals: React.FC<UserProposalsProps> = ({
   // Handle proposal actions
   const handleProposalAction = async (
     proposal: UserProposal,
-    action: ProposalAction
+    action: ProposalAction,
+    ownerSafe?: string
   ) => {
     console.log(`Proposal action: ${action}`, proposal.safeTxHash);
 
@@ -307,14 +377,31 @@ const UserProposals: React.FC<UserProposalsProps> = ({
         ...prev,
         [proposal.safeTxHash]: "executing",
       }));
+    } else if (action === ProposalAction.REJECT) {
+      setActionLoading((prev) => ({
+        ...prev,
+        [proposal.safeTxHash]: "rejecting",
+      }));
+    } else if (
+      action === ProposalAction.APPROVE_VIA_SAFE ||
+      action === ProposalAction.APPROVE_ON_CHAIN
+    ) {
+      setActionLoading((prev) => ({
+        ...prev,
+        [proposal.safeTxHash]: "approving",
+      }));
     }
 
     try {
       // Call parent handler
-      await onProposalAction?.(proposal, action);
+      await onProposalAction?.(proposal, action, ownerSafe);
 
       // After successful action, run targeted proposal update
-      if (action === ProposalAction.SIGN || action === ProposalAction.EXECUTE) {
+      if (
+        action === ProposalAction.SIGN ||
+        action === ProposalAction.APPROVE_ON_CHAIN ||
+        action === ProposalAction.EXECUTE
+      ) {
         // Always update specific proposal
         setTimeout(
           () => {
@@ -357,7 +444,284 @@ const UserProposals: React.FC<UserProposalsProps> = ({
     setExpandedProposal(expandedProposal === safeTxHash ? null : safeTxHash);
   };
 
+  // Render single proposal card
+  const renderProposal = (
+    proposal: UserProposal,
+    group: ProposalNonceGroup,
+    leadingProposal: UserProposal | null
+  ) => {
+    const status = getProposalStatusIcon(proposal);
+    const isExpanded = expandedProposal === proposal.safeTxHash;
+    const isUpdating = updatingProposals.has(proposal.safeTxHash);
+    const isRejection = isRejectionProposal(proposal);
+    const hasRejection = group.proposals.some(isRejectionProposal);
+    const isNonceUsed = group.proposals.some((p) => p.isExecuted);
+    const isNestedSafe = isViaOwnerSafe(proposal);
+    const isLeading =
+      group.proposals.length > 1 &&
+      leadingProposal?.safeTxHash === proposal.safeTxHash;
+
+    return (
+      <div
+        key={proposal.safeTxHash}
+        className={`border rounded-lg overflow-hidden transition-all duration-300 ${
+          isUpdating
+            ? "border-blue-300 bg-blue-50 shadow-md"
+            : "border-gray-200"
+        }`}
+      >
+        {/* Main information */}
+        <div className="p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-3">
+              <span className={`text-lg ${status.color}`}>{status.icon}</span>
+              {isUpdating && (
+                <span className="text-sm text-blue-600 animate-pulse">
+                  Updating...
+                </span>
+              )}
+              <div>
+                <div className="font-medium text-gray-900">
+                  {formatAddress(proposal.to)}
+                  {proposal.value !== "0" && (
+                    <span className="ml-2 text-sm text-green-600">
+                      {formatEthValue(proposal.value)} ETH
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600 font-mono truncate">
+                  {CalldataDecoder.getSummary(
+                    CalldataDecoder.decodeProposal(proposal)
+                  )}
+                </div>
+                <div className={`text-sm ${status.color}`}>{status.text}</div>
+                {(isRejection || isLeading) && (
+                  <div className="flex gap-1 mt-1">
+                    {isRejection && (
+                      <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded text-xs">
+                        Rejection
+                      </span>
+                    )}
+                    {isLeading && (
+                      <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded text-xs">
+                        {proposal.isExecuted
+                          ? "Executed for this nonce"
+                          : "Reached threshold first"}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500">
+                Nonce: {proposal.nonce}
+              </span>
+
+              <button
+                onClick={() => toggleExpandedProposal(proposal.safeTxHash)}
+                className="p-1 rounded hover:bg-gray-100"
+              >
+                <span
+                  className={`transform transition-transform ${
+                    isExpanded ? "rotate-180" : ""
+                  }`}
+                >
+                  ▼
+                </span>
+              </button>
+            </div>
+          </div>
+
+          {/* Brief signature information */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4 text-sm text-gray-600">
+              <div>
+                <span className="font-medium">Signatures:</span>
+                <span
+                  className={`ml-1 ${
+                    getConfirmationCount(proposal) >=
+                    proposal.confirmationsRequired
+                      ? "text-green-600"
+                      : "text-orange-600"
+                  }`}
+                >
+                  {getConfirmationCount(proposal)} /{" "}
+                  {proposal.confirmationsRequired}
+                </span>
+              </div>
+
+              <div>
+                <span className="font-medium">Safe:</span>
+                <span className="ml-1">{formatAddress(proposal.safe)}</span>
+              </div>
+
+              <div>
+                <span className="font-medium">Date:</span>
+                <span className="ml-1">
+                  {new Date(proposal.submissionDate).toLocaleDateString(
+                    "en-US"
+                  )}
+                </span>
+              </div>
+            </div>
+
+            {/* Action buttons */}
+            <div className="flex gap-2">
+              {!proposal.isExecuted && isNestedSafe && (
+                <span className="px-3 py-1 bg-purple-100 text-purple-700 rounded text-sm">
+                  Via Owner Safe
+                </span>
+              )}
+
+              {!proposal.isExecuted && !isNestedSafe && (
+                <>
+                  {!hasUserConfirmed(proposal) &&
+                    getConfirmationCount(proposal) <
+                      proposal.confirmationsRequired && (
+                      <button
+                        onClick={() =>
+                          handleProposalAction(proposal, ProposalAction.SIGN)
+                        }
+                        disabled={
+                          actionLoading[proposal.safeTxHash] === "signing"
+                        }
+                        className="px-3 py-1 bg-orange-100 text-orange-700 rounded text-sm hover:bg-orange-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {actionLoading[proposal.safeTxHash] === "signing"
+                          ? "Signing..."
+                          : "Sign"}
+                      </button>
+                    )}
+
+                  {/* On-chain alternative for wallets without EIP-712 */}
+                  {!hasUserConfirmed(proposal) &&
+                    getConfirmationCount(proposal) <
+                      proposal.confirmationsRequired && (
+                      <button
+                        onClick={() =>
+                          handleProposalAction(
+                            proposal,
+                            ProposalAction.APPROVE_ON_CHAIN
+                          )
+                        }
+                        disabled={
+                          actionLoading[proposal.safeTxHash] === "approving"
+                        }
+                        className="px-3 py-1 bg-yellow-100 text-yellow-700 rounded text-sm hover:bg-yellow-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Send approveHash() transaction instead of signing"
+                      >
+                        {actionLoading[proposal.safeTxHash] === "approving"
+                          ? "Approving..."
+                          : "Approve On-chain"}
+                      </button>
+                    )}
+
+                  {/* Show status if user already signed */}
+                  {hasUserConfirmed(proposal) &&
+                    getConfirmationCount(proposal) <
+                      proposal.confirmationsRequired && (
+                      <span className="px-3 py-1 bg-green-100 text-green-700 rounded text-sm">
+                        You Signed
+                      </span>
+                    )}
+
+                  {/* Show status if threshold reached but user didn't sign */}
+                  {!hasUserConfirmed(proposal) &&
+                    getConfirmationCount(proposal) >=
+                      proposal.confirmationsRequired && (
+                      <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm">
+                        Signatures Collected
+                      </span>
+                    )}
+
+                  {/* Show status if user signed AND threshold reached */}
+                  {hasUserConfirmed(proposal) &&
+                    getConfirmationCount(proposal) >=
+                      proposal.confirmationsRequired && (
+                      <span className="px-3 py-1 bg-green-100 text-green-700 rounded text-sm">
+                        Ready to Execute
+                      </span>
+                    )}
+
+                  {getConfirmationCount(proposal) >=
+                    proposal.confirmationsRequired && (
+                    <button
+                      onClick={() =>
+                        handleProposalAction(proposal, ProposalAction.EXECUTE)
+                      }
+                      disabled={
+                        actionLoading[proposal.safeTxHash] === "executing"
+                      }
+                      className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {actionLoading[proposal.safeTxHash] === "executing"
+                        ? "Executing..."
+                        : "Execute"}
+                    </button>
+                  )}
+
+                  {!isRejection && !hasRejection && !isNonceUsed && (
+                    <button
+                      onClick={() =>
+                        handleProposalAction(proposal, ProposalAction.REJECT)
+                      }
+                      disabled={
+                        actionLoading[proposal.safeTxHash] === "rejecting"
+                      }
+                      className="px-3 py-1 bg-red-100 text-red-700 rounded text-sm hover:bg-red-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Propose an empty transaction with the same nonce"
+                    >
+                      {actionLoading[proposal.safeTxHash] === "rejecting"
+                        ? "Rejecting..."
+                        : "Reject"}
+                    </button>
+                  )}
+                </>
+              )}
+
+              <button
+                onClick={() =>
+                  handleProposalAction(proposal, ProposalAction.VIEW)
+                }
+                className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200 transition-colors"
+              >
+                Details
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Expanded information */}
+        {isExpanded && (
+          <ProposalDetails
+            proposal={proposal}
+            userAddress={userAddress}
+            safeOnChain={safeOnChain}
+            onChainApprovals={onChainApprovals[proposal.safeTxHash]}
+            userSafes={ownedSafes}
+            approving={actionLoading[proposal.safeTxHash] === "approving"}
+            onApproveViaSafe={(ownerSafe) =>
+              handleProposalAction(
+                proposal,
+                ProposalAction.APPROVE_VIA_SAFE,
+                ownerSafe
+              )
+            }
+          />
+        )}
+      </div>
+    );
+  };
+
   const filteredProposals = getFilteredProposals();
+  // Whole nonce groups are grouped before filtering, so a matching proposal
+  // keeps the competing proposals of its nonce next to it
+  const filteredHashes = new Set(filteredProposals.map((p) => p.safeTxHash));
+  const visibleGroups = groupProposalsByNonce(proposals).filter((group) =>
+    group.proposals.some((p) => filteredHashes.has(p.safeTxHash))
+  );
 
   return (
     <div className={`bg-white rounded-lg shadow ${className}`}>
@@ -392,31 +756,31 @@ const UserProposals: React.FC<UserProposalsProps> = ({
       </div>
 
       {/* Statistics */}
-      {stats && (
+      {proposals.length > 0 && (
         <div className="px-6 py-4 bg-gray-50">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="text-center">
               <div className="text-2xl font-bold text-gray-900">
-                {stats.total}
+                {proposals.length}
               </div>
               <div className="text-sm text-gray-600">Total</div>
             </div>
 
             <div className="text-center">
               <div className="text-2xl font-bold text-orange-600">
-                {stats.byStatus.needsMySignature}
+                {countProposals("needsMySignature")}
               </div>
               <div className="text-sm text-gray-600">Require Signature</div>
             </div>
 
             <div className="text-2xl font-bold text-blue-600 text-center">
-              <div>{stats.byStatus.readyToExecute}</div>
+              <div>{countProposals("readyToExecute")}</div>
               <div className="text-sm text-gray-600">Ready to Execute</div>
             </div>
 
             <div className="text-center">
               <div className="text-2xl font-bold text-green-600">
-                {stats.byStatus.executed}
+                {countProposals("executed")}
               </div>
               <div className="text-sm text-gray-600">Executed</div>
             </div>
@@ -428,26 +792,31 @@ const UserProposals: React.FC<UserProposalsProps> = ({
       <div className="px-6 py-3 border-b border-gray-100">
         <div className="flex flex-wrap gap-2">
           {[
-            { key: "all", label: "All", count: stats?.total || 0 },
+            { key: "all", label: "All", count: countProposals("all") },
             {
               key: "needsMySignature",
               label: "Require Signature",
-              count: stats?.byStatus.needsMySignature || 0,
+              count: countProposals("needsMySignature"),
+            },
+            {
+              key: "viaOwnerSafe",
+              label: "Via Owner Safe",
+              count: countProposals("viaOwnerSafe"),
             },
             {
               key: "waitingForOthers",
               label: "⏳ Waiting for Others",
-              count: stats?.byStatus.waitingForOthers || 0,
+              count: countProposals("waitingForOthers"),
             },
             {
               key: "readyToExecute",
               label: "Ready to Execute",
-              count: stats?.byStatus.readyToExecute || 0,
+              count: countProposals("readyToExecute"),
             },
             {
               key: "executed",
               label: "Executed",
-              count: stats?.byStatus.executed || 0,
+              count: countProposals("executed"),
             },
           ].map((filterOption) => (
             <button
@@ -514,293 +883,36 @@ const UserProposals: React.FC<UserProposalsProps> = ({
             </div>
           ) : (
             <div className="space-y-4">
-              {filteredProposals.map((proposal) => {
-                const status = getProposalStatusIcon(proposal);
-                const isExpanded = expandedProposal === proposal.safeTxHash;
-                const isUpdating = updatingProposals.has(proposal.safeTxHash);
+              {visibleGroups.map((group) => {
+                const leadingProposal = getLeadingProposal(
+                  group,
+                  onChainApprovals
+                );
+
+                if (group.proposals.length === 1) {
+                  return renderProposal(
+                    group.proposals[0],
+                    group,
+                    leadingProposal
+                  );
+                }
 
                 return (
                   <div
-                    key={proposal.safeTxHash}
-                    className={`border rounded-lg overflow-hidden transition-all duration-300 ${
-                      isUpdating
-                        ? "border-blue-300 bg-blue-50 shadow-md"
-                        : "border-gray-200"
-                    }`}
+                    key={`${group.safe}:${group.nonce}`}
+                    className="border-2 border-dashed border-amber-300 rounded-lg p-3 space-y-3"
                   >
-                    {/* Main information */}
-                    <div className="p-4">
-                      <div className="flex items-center justify-between mb-3">
-                        <div className="flex items-center gap-3">
-                          <span className={`text-lg ${status.color}`}>
-                            {status.icon}
-                          </span>
-                          {isUpdating && (
-                            <span className="text-sm text-blue-600 animate-pulse">
-                              Updating...
-                            </span>
-                          )}
-                          <div>
-                            <div className="font-medium text-gray-900">
-                              {formatAddress(proposal.to)}
-                              {proposal.value !== "0" && (
-                                <span className="ml-2 text-sm text-green-600">
-                                  {formatEthValue(proposal.value)} ETH
-                                </span>
-                              )}
-                            </div>
-                            <div className={`text-sm ${status.color}`}>
-                              {status.text}
-                            </div>
-                          </div>
-                        </div>
-
-                        <div className="flex items-center gap-2">
-                          <span className="text-xs text-gray-500">
-                            Nonce: {proposal.nonce}
-                          </span>
-
-                          <button
-                            onClick={() =>
-                              toggleExpandedProposal(proposal.safeTxHash)
-                            }
-                            className="p-1 rounded hover:bg-gray-100"
-                          >
-                            <span
-                              className={`transform transition-transform ${
-                                isExpanded ? "rotate-180" : ""
-                              }`}
-                            >
-                              ▼
-                            </span>
-                          </button>
-                        </div>
-                      </div>
-
-                      {/* Brief signature information */}
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-4 text-sm text-gray-600">
-                          <div>
-                            <span className="font-medium">Signatures:</span>
-                            <span
-                              className={`ml-1 ${
-                                (proposal.confirmations?.length || 0) >=
-                                proposal.confirmationsRequired
-                                  ? "text-green-600"
-                                  : "text-orange-600"
-                              }`}
-                            >
-                              {proposal.confirmations?.length || 0} /{" "}
-                              {proposal.confirmationsRequired}
-                            </span>
-                          </div>
-
-                          <div>
-                            <span className="font-medium">Safe:</span>
-                            <span className="ml-1">
-                              {formatAddress(proposal.safe)}
-                            </span>
-                          </div>
-
-                          <div>
-                            <span className="font-medium">Date:</span>
-                            <span className="ml-1">
-                              {new Date(
-                                proposal.submissionDate
-                              ).toLocaleDateString("en-US")}
-                            </span>
-                          </div>
-                        </div>
-
-                        {/* Action buttons */}
-                        <div className="flex gap-2">
-                          {!proposal.isExecuted && (
-                            <>
-                              {!proposal.confirmations?.some(
-                                (conf) =>
-                                  conf.owner.toLowerCase() ===
-                                  userAddress.toLowerCase()
-                              ) &&
-                                (proposal.confirmations?.length || 0) <
-                                  proposal.confirmationsRequired && (
-                                  <button
-                                    onClick={() =>
-                                      handleProposalAction(
-                                        proposal,
-                                        ProposalAction.SIGN
-                                      )
-                                    }
-                                    disabled={
-                                      actionLoading[proposal.safeTxHash] ===
-                                      "signing"
-                                    }
-                                    className="px-3 py-1 bg-orange-100 text-orange-700 rounded text-sm hover:bg-orange-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                                  >
-                                    {actionLoading[proposal.safeTxHash] ===
-                                    "signing"
-                                      ? "Signing..."
-                                      : "Sign"}
-                                  </button>
-                                )}
-
-                              {/* Show status if user already signed */}
-                              {proposal.confirmations?.some(
-                                (conf) =>
-                                  conf.owner.toLowerCase() ===
-                                  userAddress.toLowerCase()
-                              ) &&
-                                (proposal.confirmations?.length || 0) <
-                                  proposal.confirmationsRequired && (
-                                  <span className="px-3 py-1 bg-green-100 text-green-700 rounded text-sm">
-                                    You Signed
-                                  </span>
-                                )}
-
-                              {/* Show status if threshold reached but user didn't sign */}
-                              {!proposal.confirmations?.some(
-                                (conf) =>
-                                  conf.owner.toLowerCase() ===
-                                  userAddress.toLowerCase()
-                              ) &&
-                                (proposal.confirmations?.length || 0) >=
-                                  proposal.confirmationsRequired && (
-                                  <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm">
-                                    Signatures Collected
-                                  </span>
-                                )}
-
-                              {/* Show status if user signed AND threshold reached */}
-                              {proposal.confirmations?.some(
-                                (conf) =>
-                                  conf.owner.toLowerCase() ===
-                                  userAddress.toLowerCase()
-                              ) &&
-                                (proposal.confirmations?.length || 0) >=
-                                  proposal.confirmationsRequired && (
-                                  <span className="px-3 py-1 bg-green-100 text-green-700 rounded text-sm">
-                                    Ready to Execute
-                                  </span>
-                                )}
-
-                              {(proposal.confirmations?.length || 0) >=
-                                proposal.confirmationsRequired && (
-                                <button
-                                  onClick={() =>
-                                    handleProposalAction(
-                                      proposal,
-                                      ProposalAction.EXECUTE
-                                    )
-                                  }
-                                  disabled={
-                                    actionLoading[proposal.safeTxHash] ===
-                                    "executing"
-                                  }
-                                  className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                                >
-                                  {actionLoading[proposal.safeTxHash] ===
-                                  "executing"
-                                    ? "Executing..."
-                                    : "Execute"}
-                                </button>
-                              )}
-                            </>
-                          )}
-
-                          <button
-                            onClick={() =>
-                              handleProposalAction(
-                                proposal,
-                                ProposalAction.VIEW
-                              )
-                            }
-                            className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200 transition-colors"
-                          >
-                            Details
-                          </button>
-                        </div>
-                      </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium text-amber-800">
+                        Nonce {group.nonce}: {group.proposals.length} competing
+                        transactions
+                      </span>
+                      <span className="text-xs text-amber-700">
+                        Only one of them can be executed
+                      </span>
                     </div>
-
-                    {/* Expanded information */}
-                    {isExpanded && (
-                      <div className="border-t border-gray-100 bg-gray-50 p-4">
-                        <div className="space-y-3">
-                          <div>
-                            <label className="text-sm font-medium text-gray-700">
-                              TX Hash:
-                            </label>
-                            <div className="mt-1 p-2 bg-white border rounded font-mono text-xs break-all">
-                              {proposal.safeTxHash}
-                            </div>
-                          </div>
-
-                          {proposal.data && proposal.data !== "0x" && (
-                            <div>
-                              <label className="text-sm font-medium text-gray-700">
-                                Data:
-                              </label>
-                              <div className="mt-1 p-2 bg-white border rounded font-mono text-xs break-all">
-                                {proposal.data.slice(0, 100)}
-                                {proposal.data.length > 100 && "..."}
-                              </div>
-                            </div>
-                          )}
-
-                          {(proposal.confirmations?.length || 0) > 0 && (
-                            <div>
-                              <label className="text-sm font-medium text-gray-700 mb-2 block">
-                                Signatures (
-                                {proposal.confirmations?.length || 0}):
-                              </label>
-                              <div className="space-y-2">
-                                {proposal.confirmations?.map((conf, index) => (
-                                  <div
-                                    key={index}
-                                    className="flex items-center gap-3 p-2 bg-white border rounded"
-                                  >
-                                    <div className="flex-1">
-                                      <div className="font-medium text-sm">
-                                        {formatAddress(conf.owner)}
-                                        {conf.owner.toLowerCase() ===
-                                          userAddress.toLowerCase() && (
-                                          <span className="ml-2 px-2 py-1 bg-green-100 text-green-800 text-xs rounded">
-                                            You
-                                          </span>
-                                        )}
-                                      </div>
-                                      <div className="text-xs text-gray-500">
-                                        {new Date(
-                                          conf.submissionDate
-                                        ).toLocaleString("en-US")}
-                                      </div>
-                                    </div>
-                                    <div className="text-xs text-gray-400">
-                                      {conf.signatureType || "EOA"}
-                                    </div>
-                                  </div>
-                                ))}
-                              </div>
-                            </div>
-                          )}
-
-                          {proposal.dataDecoded && (
-                            <div>
-                              <label className="text-sm font-medium text-gray-700">
-                                Decoded Data:
-                              </label>
-                              <div className="mt-1 p-2 bg-white border rounded text-xs">
-                                <pre className="whitespace-pre-wrap">
-                                  {JSON.stringify(
-                                    proposal.dataDecoded,
-                                    null,
-                                    2
-                                  )}
-                                </pre>
-                              </div>
-                            </div>
-                          )}
-                        </div>
-                      </div>
+                    {group.proposals.map((proposal) =>
+                      renderProposal(proposal, group, leadingProposal)
                     )}
                   </div>
                 );
@@ -3,3 +3,8 @@ export { default as SafeCreationForm } from './SafeCreationForm'
 export { default as SafeManagement } from './SafeManagement'
 export { default as UserProposals } from './UserProposals'
 export { default as ProposalsPage } from './ProposalsPage'
+export { default as SafeSettings } from './SafeSettings'
+export { default as TransactionQueue } from './TransactionQueue'
+export { default as ProposalDetails } from './ProposalDetails'
+export { default as SelectorDatabaseSettings } from './SelectorDatabaseSettings'
+export { default as TransferPanel } from './TransferPanel'
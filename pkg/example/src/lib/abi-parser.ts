@@ -1,30 +1,265 @@
 /**
- * ABI parser for extracting functions of contracts
+ * ABI parser for extracting functions, events and errors of contracts
  */
 
-import { ParsedFunction } from './contract-types'
+import { ethers } from 'ethers'
+import {
+  ABIInput,
+  ContractNatSpec,
+  FunctionDocs,
+  ParsedError,
+  ParsedEvent,
+  ParsedFunction
+} from './contract-types'
+import { selectorDatabase } from './selector-database'
+
+// Units recognized in NatSpec parameter descriptions
+const UNIT_PATTERNS: [RegExp, string][] = [
+  [/\bin wei\b/i, 'wei'],
+  [/\bin gwei\b/i, 'gwei'],
+  [/\bin (ether|eth)\b/i, 'ETH'],
+  [/\bbasis points\b|\bbps\b/i, 'bps'],
+  [/\bin seconds\b/i, 'seconds'],
+  [/\btimestamp\b/i, 'unix timestamp'],
+  [/\bpercent(age)?\b/i, '%']
+]
 
 export class ABIParser {
   /**
-   * Extracts functions from ABI
+   * Extracts functions from ABI, NatSpec is attached by signature
    */
-  static parseFunctions(abi: any[]): ParsedFunction[] {
+  static parseFunctions(
+    abi: any[],
+    natspec?: ContractNatSpec
+  ): ParsedFunction[] {
     return abi
       .filter(item => item.type === 'function')
-      .map(func => ({
-        name: func.name,
-        signature: this.createSignature(func),
-        inputs: func.inputs || [],
-        payable: func.stateMutability === 'payable',
-        stateMutability: func.stateMutability
-      }))
+      .map(func => {
+        const signature = this.createSignature(func)
+        return {
+          name: func.name,
+          signature,
+          selector: this.getSelector(signature),
+          inputs: (func.inputs || []).map((input: any) =>
+            this.parseInput(input)
+          ),
+          outputs: (func.outputs || []).map((output: any) =>
+            this.parseInput(output)
+          ),
+          payable: func.stateMutability === 'payable',
+          stateMutability: func.stateMutability,
+          docs: natspec?.methods[signature]
+        }
+      })
+  }
+
+  /**
+   * Extracts events from ABI, anonymous events have no topic to match
+   */
+  static parseEvents(abi: any[]): ParsedEvent[] {
+    return abi
+      .filter(item => item.type === 'event')
+      .map(event => {
+        const signature = this.createSignature(event)
+        return {
+          name: event.name,
+          signature,
+          topic: ethers.id(signature),
+          inputs: (event.inputs || []).map((input: any) =>
+            this.parseInput(input)
+          ),
+          anonymous: event.anonymous === true
+        }
+      })
+  }
+
+  /**
+   * Extracts custom errors from ABI
+   */
+  static parseErrors(abi: any[]): ParsedError[] {
+    return abi
+      .filter(item => item.type === 'error')
+      .map(error => {
+        const signature = this.createSignature(error)
+        return {
+          name: error.name,
+          signature,
+          selector: this.getSelector(signature),
+          inputs: (error.inputs || []).map((input: any) =>
+            this.parseInput(input)
+          )
+        }
+      })
+  }
+
+  /**
+   * Extracts ABI from pasted JSON: plain ABI array, Hardhat or Foundry
+   * artifact ({ abi }), or an ABI encoded as JSON string
+   */
+  static parseAbiJson(input: string): any[] {
+    let parsed: any
+    try {
+      parsed = JSON.parse(input.trim())
+    } catch (error) {
+      throw new Error('ABI is not valid JSON')
+    }
+
+    if (parsed && !Array.isArray(parsed) && typeof parsed === 'object') {
+      parsed = parsed.abi ?? parsed.result
+    }
+    if (typeof parsed === 'string') {
+      parsed = JSON.parse(parsed)
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error('No ABI array found. Expected ABI or artifact with "abi"')
+    }
+
+    // Rejects entries ethers cannot encode against
+    try {
+      new ethers.Interface(parsed)
+    } catch (error: any) {
+      throw new Error(`Invalid ABI: ${error.message}`)
+    }
+
+    if (!parsed.some(item => item.type === 'function')) {
+      throw new Error('ABI has no functions')
+    }
+
+    return parsed
+  }
+
+  /**
+   * Extracts NatSpec from solc output or Foundry artifact (userdoc/devdoc
+   * directly or inside metadata), null when the JSON has none
+   */
+  static parseNatSpec(input: string): ContractNatSpec | null {
+    let parsed: any
+    try {
+      parsed = JSON.parse(input.trim())
+    } catch (error) {
+      return null
+    }
+    if (!parsed || Array.isArray(parsed) || typeof parsed !== 'object') {
+      return null
+    }
+
+    let metadata = parsed.metadata
+    if (typeof metadata === 'string') {
+      try {
+        metadata = JSON.parse(metadata)
+      } catch (error) {
+        metadata = null
+      }
+    }
+    const userdoc = parsed.userdoc || metadata?.output?.userdoc
+    const devdoc = parsed.devdoc || metadata?.output?.devdoc
+    if (!userdoc && !devdoc) {
+      return null
+    }
+
+    const signatures = new Set([
+      ...Object.keys(userdoc?.methods || {}),
+      ...Object.keys(devdoc?.methods || {})
+    ])
+    const methods: { [signature: string]: FunctionDocs } = {}
+
+    signatures.forEach(signature => {
+      const userMethod = userdoc?.methods?.[signature]
+      const devMethod = devdoc?.methods?.[signature]
+      const docs: FunctionDocs = {
+        notice: userMethod?.notice,
+        details: devMethod?.details,
+        params: devMethod?.params,
+        returns: devMethod?.returns
+      }
+
+      const units: { [name: string]: string } = {}
+      Object.entries(devMethod?.params || {}).forEach(([name, description]) => {
+        const unit = this.getUnitHint(String(description))
+        if (unit) units[name] = unit
+      })
+      if (Object.keys(units).length > 0) {
+        docs.units = units
+      }
+
+      methods[signature] = docs
+    })
+
+    return {
+      title: devdoc?.title,
+      notice: userdoc?.notice,
+      methods
+    }
+  }
+
+  /**
+   * Unit mentioned in a parameter description: wei, bps, seconds, decimals
+   */
+  static getUnitHint(description: string): string | undefined {
+    const decimals = description.match(/\b(\d+) decimals\b/i)
+    if (decimals) {
+      return `${decimals[1]} decimals`
+    }
+    return UNIT_PATTERNS.find(([pattern]) => pattern.test(description))?.[1]
+  }
+
+  /**
+   * Keeps only fields needed for encoding, recursively for tuples
+   */
+  static parseInput(input: any): ABIInput {
+    const parsed: ABIInput = {
+      name: input.name || '',
+      type: input.type
+    }
+    if (input.internalType) {
+      parsed.internalType = input.internalType
+    }
+    if (input.indexed) {
+      parsed.indexed = true
+    }
+    if (input.components) {
+      parsed.components = input.components.map((component: any) =>
+        this.parseInput(component)
+      )
+    }
+    return parsed
+  }
+
+  /**
+   * Canonical type used in signatures: tuple[] becomes (address,uint256)[]
+   */
+  static formatType(input: ABIInput): string {
+    if (!input.type.startsWith('tuple')) {
+      return input.type
+    }
+    const components = (input.components || [])
+      .map(component => this.formatType(component))
+      .join(',')
+    return `(${components})${input.type.slice('tuple'.length)}`
+  }
+
+  /**
+   * 4-byte selector of a function signature
+   */
+  static getSelector(signature: string): string {
+    return ethers.id(signature).slice(0, 10)
+  }
+
+  /**
+   * Known signatures for a selector from the offline database
+   */
+  static findSignatures(selector: string): string[] {
+    return selectorDatabase.lookup(selector)
   }
 
   /**
    * Creates function signature
    */
   static createSignature(func: any): string {
-    const params = func.inputs?.map((input: any) => input.type).join(',') || ''
+    const params =
+      func.inputs
+        ?.map((input: any) => this.formatType(this.parseInput(input)))
+        .join(',') || ''
     return `${func.name}(${params})`
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,385 @@
+/**
+ * Decoding of Safe transaction calldata into function names and arguments
+ */
+
+import { ethers } from "ethers";
+import { contractRegistry } from "./contract-registry";
+import { ABIParser } from "./abi-parser";
+import { UserProposal } from "./offchain";
+import { FunctionDocs } from "./contract-types";
+import { NFT_TRANSFER_ABI } from "./nft";
+import { formatAddress } from "./safe-common";
+
+// Where the function definition used for decoding came from
+export type DecodingSource = "registry" | "sts" | "selector";
+
+export interface DecodedArgument {
+  name: string;
+  type: string;
+  value: string; // Formatted for display
+  description?: string; // NatSpec @param
+  unit?: string;
+  tokenValue?: string; // Amount in token units, e.g. "1.5 USDC"
+}
+
+export interface DecodedCall {
+  to: string;
+  value: string; // In wei
+  operation: number; // 0 = Call, 1 = DelegateCall
+  data: string;
+  selector: string | null; // Null for plain value transfers
+  contractName?: string;
+  functionName?: string;
+  signature?: string;
+  source?: DecodingSource;
+  docs?: FunctionDocs; // NatSpec of the registry function
+  args: DecodedArgument[];
+  nestedCalls?: DecodedCall[]; // Unpacked MultiSend payload
+  candidates?: FunctionDecoding[]; // Colliding signatures that all decode the data
+}
+
+// Raw call as stored in Safe transactions and MultiSend payloads
+export interface RawCall {
+  to: string;
+  value: string | bigint;
+  data?: string | null;
+  operation?: number;
+}
+
+// Safe Transaction Service decoding, valueDecoded holds MultiSend calls
+interface STSDataDecoded {
+  method: string;
+  parameters?: {
+    name: string;
+    type: string;
+    value: any;
+    valueDecoded?: { dataDecoded?: STSDataDecoded | null }[] | null;
+  }[];
+}
+
+export type FunctionDecoding = Pick<
+  DecodedCall,
+  "functionName" | "signature" | "args" | "source" | "candidates"
+>;
+
+const MULTI_SEND_SELECTOR = "0x8d80ff0a"; // multiSend(bytes)
+
+// Unpacks MultiSend transactions: operation (1) | to (20) | value (32) | length (32) | data
+export function decodeMultiSendTransactions(transactions: string): RawCall[] {
+  const bytes = ethers.getBytes(transactions);
+  const calls: RawCall[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    if (offset + 85 > bytes.length) {
+      throw new Error("MultiSend payload is truncated");
+    }
+
+    const operation = bytes[offset];
+    const to = ethers.getAddress(
+      ethers.hexlify(bytes.slice(offset + 1, offset + 21))
+    );
+    const value = BigInt(ethers.hexlify(bytes.slice(offset + 21, offset + 53)));
+    const dataLength = Number(
+      BigInt(ethers.hexlify(bytes.slice(offset + 53, offset + 85)))
+    );
+    const dataStart = offset + 85;
+    if (dataStart + dataLength > bytes.length) {
+      throw new Error("MultiSend call data is truncated");
+    }
+
+    calls.push({
+      operation,
+      to,
+      value: value.toString(),
+      data: ethers.hexlify(bytes.slice(dataStart, dataStart + dataLength)),
+    });
+    offset = dataStart + dataLength;
+  }
+
+  return calls;
+}
+
+// Display string for decoded values, tuples keep component names
+export function formatDecodedValue(
+  value: any,
+  paramType?: ethers.ParamType
+): string {
+  if (paramType?.isArray() && Array.isArray(value)) {
+    return `[${value
+      .map((item) => formatDecodedValue(item, paramType.arrayChildren))
+      .join(", ")}]`;
+  }
+
+  if (paramType?.isTuple() && Array.isArray(value)) {
+    return `{ ${paramType.components
+      .map(
+        (component, index) =>
+          `${component.name || index}: ${formatDecodedValue(
+            value[index],
+            component
+          )}`
+      )
+      .join(", ")} }`;
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => formatDecodedValue(item)).join(", ")}]`;
+  }
+
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+
+  if (value !== null && typeof value === "object") {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+export class CalldataDecoder {
+  /**
+   * Decodes calldata with the first available definition: registry ABI of
+   * the target, STS dataDecoded, then any known function with the selector
+   */
+  static decode(
+    call: RawCall,
+    dataDecoded?: STSDataDecoded | null
+  ): DecodedCall {
+    const data = call.data || "0x";
+    const contract = contractRegistry.getContract(call.to);
+
+    const decoded: DecodedCall = {
+      to: call.to,
+      value: call.value.toString(),
+      operation: call.operation ?? 0,
+      data,
+      selector:
+        ethers.dataLength(data) >= 4 ? data.slice(0, 10).toLowerCase() : null,
+      contractName: contract?.name,
+      args: [],
+    };
+
+    if (!decoded.selector) {
+      return decoded;
+    }
+
+    const fromRegistry = contract
+      ? this.decodeWithAbi(contract.abi, data, call.value, "registry")
+      : null;
+    const result =
+      fromRegistry ||
+      (dataDecoded ? this.fromSTSDecoding(dataDecoded) : null) ||
+      this.decodeWithKnownSelectors(decoded.selector, data, call.value);
+
+    if (!result) {
+      return decoded;
+    }
+
+    Object.assign(decoded, result);
+
+    // NatSpec of the matching registry function becomes inline hints
+    const docs = contract?.parsedFunctions.find(
+      (func) => func.signature === decoded.signature
+    )?.docs;
+    if (docs) {
+      decoded.docs = docs;
+      decoded.args = decoded.args.map((arg) => ({
+        ...arg,
+        description: docs.params?.[arg.name],
+        unit: docs.units?.[arg.name],
+      }));
+    }
+
+    if (decoded.selector === MULTI_SEND_SELECTOR) {
+      decoded.nestedCalls = this.decodeMultiSend(data, dataDecoded);
+    }
+
+    return decoded;
+  }
+
+  static decodeProposal(proposal: UserProposal): DecodedCall {
+    return this.decode(
+      {
+        to: proposal.to,
+        value: proposal.value,
+        data: proposal.data,
+        operation: proposal.operation,
+      },
+      proposal.dataDecoded
+    );
+  }
+
+  /**
+   * Short label for lists: function name, call count of batches or transfer
+   */
+  static getSummary(decoded: DecodedCall): string {
+    if (!decoded.selector) {
+      return BigInt(decoded.value) > 0n ? "Transfer" : "Empty call";
+    }
+    if (decoded.nestedCalls) {
+      return `Batch (${decoded.nestedCalls.length} calls)`;
+    }
+    return (
+      this.getNftTransferSummary(decoded) ||
+      decoded.functionName ||
+      `Unknown ${decoded.selector}`
+    );
+  }
+
+  // NFT transfer #7 → 0x1234...abcd
+  private static getNftTransferSummary(decoded: DecodedCall): string | null {
+    if (
+      decoded.functionName !== "safeTransferFrom" &&
+      decoded.functionName !== "safeBatchTransferFrom"
+    ) {
+      return null;
+    }
+
+    const [, to, ids] = decoded.args;
+    if (!to || !ids) return null;
+
+    const tokens = ids.type.endsWith("[]")
+      ? ids.value.replace(/^\[|\]$/g, "").split(", ")
+      : [ids.value];
+    return `NFT transfer ${tokens
+      .map((id) => `#${id}`)
+      .join(", ")} → ${formatAddress(to.value)}`;
+  }
+
+  private static decodeWithAbi(
+    abi: any[] | string[],
+    data: string,
+    value: string | bigint,
+    source: DecodingSource,
+    strict = false
+  ): FunctionDecoding | null {
+    try {
+      const contractInterface = new ethers.Interface(abi);
+      const parsed = contractInterface.parseTransaction({
+        data,
+        value: BigInt(value),
+      });
+      if (!parsed) {
+        return null;
+      }
+
+      // Guessed signatures must re-encode to exactly the same calldata
+      if (
+        strict &&
+        contractInterface
+          .encodeFunctionData(parsed.fragment, parsed.args)
+          .toLowerCase() !== data.toLowerCase()
+      ) {
+        return null;
+      }
+
+      return {
+        functionName: parsed.name,
+        signature: parsed.signature,
+        source,
+        args: parsed.fragment.inputs.map((input, index) => ({
+          name: input.name || `param${index}`,
+          type: input.format("sighash"),
+          value: formatDecodedValue(parsed.args[index], input),
+        })),
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static fromSTSDecoding(
+    dataDecoded: STSDataDecoded
+  ): FunctionDecoding {
+    const parameters = dataDecoded.parameters || [];
+    return {
+      functionName: dataDecoded.method,
+      signature: `${dataDecoded.method}(${parameters
+        .map((param) => param.type)
+        .join(",")})`,
+      source: "sts",
+      args: parameters.map((param) => ({
+        name: param.name,
+        type: param.type,
+        value: formatDecodedValue(param.value),
+      })),
+    };
+  }
+
+  // Registry ABIs keep parameter names, the offline selector database
+  // covers unknown contracts and may hold colliding signatures
+  private static decodeWithKnownSelectors(
+    selector: string,
+    data: string,
+    value: string | bigint
+  ): FunctionDecoding | null {
+    for (const contract of contractRegistry.getAllContracts()) {
+      const match = contract.parsedFunctions.find(
+        (func) => ABIParser.getSelector(func.signature) === selector
+      );
+      if (!match) continue;
+
+      const result = this.decodeWithAbi(contract.abi, data, value, "selector");
+      if (result) {
+        return result;
+      }
+    }
+
+    // Standard NFT transfers keep parameter names of the EIPs
+    const nftTransfer = this.decodeWithAbi(
+      NFT_TRANSFER_ABI,
+      data,
+      value,
+      "selector",
+      true
+    );
+    if (nftTransfer) {
+      return nftTransfer;
+    }
+
+    const candidates = ABIParser.findSignatures(selector)
+      .map((signature) =>
+        this.decodeWithAbi(
+          [`function ${signature}`],
+          data,
+          value,
+          "selector",
+          true
+        )
+      )
+      .filter((result): result is FunctionDecoding => result !== null);
+
+    if (candidates.length === 0) {
+      return null;
+    }
+    if (candidates.length > 1) {
+      console.warn(`Selector collision for ${selector}:`, candidates.length);
+      return { ...candidates[0], candidates };
+    }
+    return candidates[0];
+  }
+
+  private static decodeMultiSend(
+    data: string,
+    dataDecoded?: STSDataDecoded | null
+  ): DecodedCall[] | undefined {
+    try {
+      const [transactions] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ["bytes"],
+        ethers.dataSlice(data, 4)
+      );
+      const stsCalls = dataDecoded?.parameters?.[0]?.valueDecoded || [];
+
+      return decodeMultiSendTransactions(transactions).map((call, index) =>
+        this.decode(call, stsCalls[index]?.dataDecoded)
+      );
+    } catch (error) {
+      console.warn("Failed to unpack MultiSend payload:", error);
+      return undefined;
+    }
+  }
+}
+
+export default CalldataDecoder;
@@ -14,8 +14,19 @@ export interface NetworkConfig {
   name: string;
   rpcUrl: string;
   stsUrl?: string;
+  nativeSymbol: string;
+  tokens: string[]; // ERC20 addresses checked for Safe balances without STS
   contracts: NetworkContracts;
 }
+
+// Comma separated token addresses, e.g. NEXT_PUBLIC_TOKEN_LIST=0xabc...,0xdef...
+function parseTokenList(value?: string): string[] {
+  return (value || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter((address) => address !== "");
+}
+
 // Configurations for different networks
 export const NETWORK_CONFIGS: Record<number, NetworkConfig> = {
   // Anvil Local
@@ -24,6 +35,8 @@ export const NETWORK_CONFIGS: Record<number, NetworkConfig> = {
     name: "Anvil Local",
     rpcUrl: "http://127.0.0.1:8545",
     stsUrl: "http://127.0.0.1:8000",
+    nativeSymbol: "ETH",
+    tokens: parseTokenList(process.env.NEXT_PUBLIC_TOKEN_LIST),
     // Real contract addresses, deployed in Anvil
     contracts: {
       safeL2Singleton: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
@@ -42,6 +55,8 @@ export const NETWORK_CONFIGS: Record<number, NetworkConfig> = {
     name: "Kasplex Testnet",
     rpcUrl: "https://rpc.kspr.bot/kasplex/testnet",
     stsUrl: process.env.NEXT_PUBLIC_STS_URL,
+    nativeSymbol: "KSPR",
+    tokens: parseTokenList(process.env.NEXT_PUBLIC_TOKEN_LIST),
     contracts: {
       safeL2Singleton: "0x5a2b478CBd6Ad0ac28A3eBAF7D9A782a4a50AdEE",
       safeProxyFactory: "0x04Ac3D0eB50762b12715ED745a5cbe20679fB8d8",
@@ -3,14 +3,23 @@
  * Now loads contracts from Safe Transaction Service API
  */
 
-import { ContractABI, ParsedFunction } from "./contract-types";
+import { ethers } from "ethers";
+import { ContractABI, ContractNatSpec, ParsedFunction } from "./contract-types";
 import { ContractsAPI } from "./contracts-api";
+import { ABIParser } from "./abi-parser";
+import { ProxyDetector } from "./proxy-detector";
+import { CustomAbiStore } from "./custom-abi-store";
+import { selectorDatabase } from "./selector-database";
 
 export class ContractRegistry {
   private static instance: ContractRegistry;
   private contracts: Map<string, ContractABI> = new Map();
   private contractsAPI: ContractsAPI | null = null;
+  private chainId: bigint | null = null;
+  private proxyDetector: ProxyDetector | null = null;
+  private checkedProxies: Set<string> = new Set();
   private isLoading = false;
+  private stsLoaded = false;
   private loadingPromise: Promise<void> | null = null;
 
   private constructor() {
@@ -27,17 +36,25 @@ export class ContractRegistry {
   /**
    * Initializes API client for given chainId
    */
-  initializeForChain(chainId: bigint): void {
+  initializeForChain(chainId: bigint, provider?: ethers.Provider): void {
     console.log(`Initializes ContractRegistry for chainId: ${chainId}`);
     this.contractsAPI = new ContractsAPI(chainId);
+    this.chainId = chainId;
+    this.proxyDetector = provider ? new ProxyDetector(provider) : null;
 
     // Clear previous contracts when changing network
     this.contracts.clear();
+    this.checkedProxies.clear();
     this.loadingPromise = null;
+    this.stsLoaded = false;
+
+    // User ABIs work even when STS is unreachable
+    this.addUserContracts();
   }
 
   /**
-   * Loads contracts from Safe Transaction Service API
+   * Loads contracts from Safe Transaction Service API, all pages.
+   * forceReload bypasses the IndexedDB cache
    */
   async loadContracts(options?: {
     limit?: number;
@@ -60,7 +77,8 @@ export class ContractRegistry {
     }
 
     // If already loaded and not force reload
-    if (this.contracts.size > 0 && !options?.forceReload) {
+    // User ABIs are added on init, only STS loading counts here
+    if (this.stsLoaded && !options?.forceReload) {
       console.log(`Contracts already loaded: ${this.contracts.size}`);
       return;
     }
@@ -82,20 +100,29 @@ export class ContractRegistry {
     limit?: number;
     offset?: number;
     trusted?: boolean;
+    forceReload?: boolean;
   }): Promise<void> {
     try {
-      const contracts = await this.contractsAPI!.getContracts(options);
+      const contracts = await this.contractsAPI!.getContracts({
+        ...options,
+        skipCache: options?.forceReload,
+      });
 
       console.log(`Received contracts from API: ${contracts.length}`);
 
-      // Clear old contracts
+      // Clear old contracts, reloaded ones are checked for proxies again
       this.contracts.clear();
+      this.checkedProxies.clear();
 
       // Add new contracts
       contracts.forEach((contract) => {
         this.addContract(contract);
       });
 
+      // User ABIs override STS entries for the same address
+      this.addUserContracts();
+      this.stsLoaded = true;
+
       console.log(`Successfully loaded contracts: ${this.contracts.size}`);
     } catch (error: any) {
       console.error("Error loading contracts:", error);
@@ -118,6 +145,7 @@ export class ContractRegistry {
     }
 
     this.contracts.set(key, contract);
+    selectorDatabase.addFromAbi(contract.abi);
 
     console.log(`Added contract ${contract.name} (${contract.address})`);
     console.log(
@@ -125,6 +153,53 @@ export class ContractRegistry {
     );
   }
 
+  /**
+   * Stores imported ABI for the current chain and adds it to registry
+   */
+  addUserContract(
+    address: string,
+    name: string,
+    abi: any[],
+    natspec?: ContractNatSpec
+  ): ContractABI {
+    if (this.chainId === null) {
+      throw new Error(
+        "ContractRegistry not initialized. Call initializeForChain() first."
+      );
+    }
+
+    const contract = CustomAbiStore.save(
+      this.chainId,
+      address,
+      name,
+      abi,
+      natspec
+    );
+    this.checkedProxies.delete(address.toLowerCase());
+    this.addContract(contract);
+    return contract;
+  }
+
+  /**
+   * Removes imported ABI, STS entry for the address comes back on next load
+   */
+  removeUserContract(address: string): void {
+    if (this.chainId === null) return;
+
+    CustomAbiStore.remove(this.chainId, address);
+    if (this.getContract(address)?.source === "user") {
+      this.contracts.delete(address.toLowerCase());
+    }
+  }
+
+  private addUserContracts(): void {
+    if (this.chainId === null) return;
+
+    CustomAbiStore.list(this.chainId).forEach((contract) =>
+      this.addContract(contract)
+    );
+  }
+
   /**
    * Gets contract by address
    */
@@ -149,11 +224,20 @@ export class ContractRegistry {
   }
 
   /**
-   * Gets function by address of contract and name of function
+   * Gets function by full signature or 4-byte selector, names are
+   * ambiguous for overloaded functions
    */
-  getFunction(address: string, functionName: string): ParsedFunction | null {
+  getFunction(
+    address: string,
+    signatureOrSelector: string
+  ): ParsedFunction | null {
+    const key = signatureOrSelector.toLowerCase();
     const functions = this.getContractFunctions(address);
-    return functions.find((func) => func.name === functionName) || null;
+    return (
+      functions.find(
+        (func) => func.selector === key || func.signature.toLowerCase() === key
+      ) || null
+    );
   }
 
   /**
@@ -165,7 +249,15 @@ export class ContractRegistry {
   }
 
   /**
-   * Loads specific contract by address from API
+   * Checks if STS marks contract as trusted for DELEGATECALL
+   */
+  isTrustedForDelegateCall(address: string): boolean {
+    return this.getContract(address)?.trustedForDelegateCall === true;
+  }
+
+  /**
+   * Loads specific contract by address from API, proxies get the
+   * implementation ABI merged in
    */
   async loadContract(address: string): Promise<ContractABI | null> {
     if (!this.contractsAPI) {
@@ -179,19 +271,117 @@ export class ContractRegistry {
       const contract = await this.contractsAPI.getContract(address);
 
       if (contract) {
-        this.addContract(contract);
-        console.log(`Contract loaded and added: ${contract.name}`);
-      } else {
-        console.log(`Contract not found in API: ${address}`);
+        const resolved = await this.resolveProxy(contract);
+        console.log(`Contract loaded and added: ${resolved.name}`);
+        return resolved;
       }
 
-      return contract;
+      console.log(`Contract not found in API: ${address}`);
+
+      // Proxy itself may be unknown while its implementation is verified
+      const proxyOnly = await this.resolveProxy({
+        name: `Proxy (${address.slice(0, 6)}...)`,
+        address,
+        abi: [],
+        parsedFunctions: [],
+      });
+      return proxyOnly.proxy ? proxyOnly : null;
     } catch (error: any) {
       console.error(`Error loading contract ${address}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Detects proxy storage slots and merges the implementation ABI.
+   * Each address is checked once per network
+   */
+  async resolveProxy(contract: ContractABI): Promise<ContractABI> {
+    const key = contract.address.toLowerCase();
+    if (!this.proxyDetector || this.checkedProxies.has(key)) {
+      return this.getContract(key) || contract;
+    }
+    this.checkedProxies.add(key);
+
+    const proxy = await this.proxyDetector.detect(contract.address);
+    if (!proxy) {
+      if (contract.parsedFunctions.length > 0) {
+        this.addContract(contract);
+      }
+      return contract;
+    }
+
+    const implementation =
+      this.getContract(proxy.implementation) ||
+      (await this.contractsAPI?.getContract(proxy.implementation)) ||
+      null;
+
+    const abi = implementation
+      ? this.mergeAbis(contract.abi, implementation.abi)
+      : contract.abi;
+    const natspec = this.mergeNatSpec(
+      contract.natspec,
+      implementation?.natspec
+    );
+    const resolved: ContractABI = {
+      ...contract,
+      name:
+        implementation && contract.abi.length === 0
+          ? `${implementation.name} (proxy)`
+          : contract.name,
+      abi,
+      parsedFunctions: ABIParser.parseFunctions(abi, natspec),
+      description: contract.description || implementation?.description,
+      natspec,
+      proxy,
+    };
+
+    if (!implementation) {
+      console.warn(
+        `Implementation ABI not found for proxy ${contract.address}:`,
+        proxy.implementation
+      );
+    }
+
+    this.addContract(resolved);
+    return resolved;
+  }
+
+  // Proxy entries win, implementation adds what the proxy does not define
+  private mergeAbis(proxyAbi: any[], implementationAbi: any[]): any[] {
+    const entryKey = (entry: any) =>
+      entry.type === "function" ||
+      entry.type === "event" ||
+      entry.type === "error"
+        ? `${entry.type}:${entry.name}(${(entry.inputs || [])
+            .map((input: any) =>
+              ABIParser.formatType(ABIParser.parseInput(input))
+            )
+            .join(",")})`
+        : entry.type;
+
+    const keys = new Set(proxyAbi.map(entryKey));
+    return [
+      ...proxyAbi,
+      ...implementationAbi.filter((entry) => !keys.has(entryKey(entry))),
+    ];
+  }
+
+  // Proxy docs win, like its ABI entries
+  private mergeNatSpec(
+    proxyDocs?: ContractNatSpec,
+    implementationDocs?: ContractNatSpec
+  ): ContractNatSpec | undefined {
+    if (!proxyDocs || !implementationDocs) {
+      return proxyDocs || implementationDocs;
+    }
+    return {
+      title: proxyDocs.title || implementationDocs.title,
+      notice: proxyDocs.notice || implementationDocs.notice,
+      methods: { ...implementationDocs.methods, ...proxyDocs.methods },
+    };
+  }
+
   /**
    * Gets loading status
    */
@@ -213,7 +403,11 @@ export class ContractRegistry {
   clear(): void {
     console.log("🧹 Clears contract registry");
     this.contracts.clear();
+    this.checkedProxies.clear();
+    this.stsLoaded = false;
     this.contractsAPI = null;
+    this.chainId = null;
+    this.proxyDetector = null;
     this.loadingPromise = null;
     this.isLoading = false;
   }
@@ -5,29 +5,94 @@
 // Basic types for ABI
 export interface ABIInput {
   name: string
-  type: string
+  type: string // 'tuple', 'tuple[]', 'uint256[3]' etc.
+  internalType?: string
+  components?: ABIInput[] // Fields of tuple types
+  indexed?: boolean // Event parameters stored in topics
+}
+
+// Form value of a parameter: text for value types, list for arrays,
+// object keyed by component name for tuples
+export type ParameterValue =
+  | string
+  | ParameterValue[]
+  | { [key: string]: ParameterValue }
+
+// NatSpec of a function, params and returns keyed by parameter name
+export interface FunctionDocs {
+  notice?: string // @notice, written for users
+  details?: string // @dev
+  params?: { [name: string]: string }
+  returns?: { [name: string]: string }
+  units?: { [name: string]: string } // Unit mentioned in param description
+}
+
+// NatSpec from compiler userdoc/devdoc, methods keyed by signature
+export interface ContractNatSpec {
+  title?: string
+  notice?: string
+  methods: { [signature: string]: FunctionDocs }
 }
 
 // Processed function for UI
 export interface ParsedFunction {
   name: string
   signature: string
+  selector: string // Unique within a contract, unlike overloaded names
   inputs: ABIInput[]
+  outputs: ABIInput[] // Decode results of view/pure calls
   payable: boolean
   stateMutability: 'pure' | 'view' | 'nonpayable' | 'payable'
+  docs?: FunctionDocs
+}
+
+// Event of contract ABI, topic is keccak256 of the signature
+export interface ParsedEvent {
+  name: string
+  signature: string
+  topic: string
+  inputs: ABIInput[]
+  anonymous: boolean
 }
 
+// Custom error of contract ABI
+export interface ParsedError {
+  name: string
+  signature: string
+  selector: string
+  inputs: ABIInput[]
+}
+
+// Upgradeable proxy standard detected from storage slots
+export type ProxyKind = 'eip1967' | 'eip1967-beacon' | 'oz-legacy' | 'eip1822'
+
+export interface ProxyInfo {
+  kind: ProxyKind
+  implementation: string
+  beacon?: string
+  admin?: string
+}
+
+// Where the contract ABI came from
+export type ContractSource = 'sts' | 'user'
+
 // Contract configuration
 export interface ContractABI {
   name: string
   address: string
   abi: any[]
   parsedFunctions: ParsedFunction[]
+  trustedForDelegateCall?: boolean // Marked safe for DELEGATECALL by STS
+  proxy?: ProxyInfo // Set when the ABI includes the implementation ABI
+  source?: ContractSource
+  description?: string // Contract description from STS
+  natspec?: ContractNatSpec // From imported compiler artifacts
 }
 
 
 // Data for function form
 export interface FunctionFormData {
-  parameters: { [key: string]: any }
+  parameters: { [key: string]: ParameterValue }
   ethValue: string
+  tokenUnits?: { [path: string]: number } // Fields entered in token units, path -> decimals
 }
@@ -2,6 +2,10 @@ import axios from "axios";
 import { ContractABI } from "./contract-types";
 import { ABIParser } from "./abi-parser";
 import { getNetworkConfig } from "./constants";
+import { ContractsCache } from "./contracts-cache";
+
+// Guard against a misbehaving `next` link
+const MAX_PAGES = 50;
 
 // Types for Safe Transaction Service API response
 export interface ContractAPIResponse {
@@ -36,69 +40,114 @@ export class ContractsAPI {
   }
 
   /**
-   * Gets list of contract ABIs from Safe Transaction Service
+   * Gets list of contract ABIs from Safe Transaction Service.
+   * Follows pagination to the last page, results are cached in IndexedDB
+   * and revalidated with ETag / Last-Modified after the TTL
    */
   async getContracts(options?: {
     limit?: number;
     offset?: number;
     trusted?: boolean;
+    skipCache?: boolean;
   }): Promise<ContractABI[]> {
+    const params = new URLSearchParams();
+    if (options?.limit) params.append("limit", options.limit.toString());
+    if (options?.offset) params.append("offset", options.offset.toString());
+    if (options?.trusted !== undefined)
+      params.append("trusted", options.trusted.toString());
+
+    const url = `${this.baseUrl}/api/v1/contracts/`;
+    const firstPageUrl =
+      url + (params.toString() ? `?${params.toString()}` : "");
+
+    const cached = options?.skipCache
+      ? null
+      : await ContractsCache.get(firstPageUrl);
+    if (cached && ContractsCache.isFresh(cached)) {
+      console.log(`Using cached contracts: ${cached.results.length}`);
+      return cached.results.map((result) => this.toContractABI(result));
+    }
+
     try {
       console.log("Loading contracts from Safe Transaction Service...");
-      console.log("URL:", this.baseUrl);
+      console.log("Full URL request:", firstPageUrl);
 
-      const params = new URLSearchParams();
-      if (options?.limit) params.append("limit", options.limit.toString());
-      if (options?.offset) params.append("offset", options.offset.toString());
-      if (options?.trusted !== undefined)
-        params.append("trusted", options.trusted.toString());
-
-      const url = `${this.baseUrl}/api/v1/contracts/`;
-      console.log(
-        "Full URL request:",
-        url + (params.toString() ? `?${params.toString()}` : "")
-      );
-
-      const response = await axios.get<ContractAPIResponse>(url, {
-        params: Object.fromEntries(params),
+      const firstPage = await axios.get<ContractAPIResponse>(firstPageUrl, {
         timeout: 10000, // 10 seconds timeout
         headers: {
           Accept: "application/json",
           "Content-Type": "application/json",
+          ...(cached?.etag && { "If-None-Match": cached.etag }),
+          ...(cached?.lastModified && {
+            "If-Modified-Since": cached.lastModified,
+          }),
         },
+        validateStatus: (status) =>
+          (status >= 200 && status < 300) || status === 304,
       });
 
+      // Not modified, cached list stays valid for another TTL
+      if (firstPage.status === 304 && cached) {
+        console.log("Contracts list not modified, using cache");
+        await ContractsCache.put({ ...cached, fetchedAt: Date.now() });
+        return cached.results.map((result) => this.toContractABI(result));
+      }
+
+      const results = [...firstPage.data.results];
+      let next = firstPage.data.next;
+      let pages = 1;
+
+      while (next && pages < MAX_PAGES) {
+        console.log(`Loading next page of contracts: ${next}`);
+        const page = await axios.get<ContractAPIResponse>(next, {
+          timeout: 10000,
+          headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+          },
+        });
+        results.push(...page.data.results);
+        next = page.data.next;
+        pages++;
+      }
+
       console.log("Received response from API:", {
-        count: response.data.count,
-        resultsLength: response.data.results.length,
-        hasNext: !!response.data.next,
-        hasPrevious: !!response.data.previous,
+        count: firstPage.data.count,
+        resultsLength: results.length,
+        pages,
       });
 
-      // Convert API response to our ContractABI format
-      const contracts: ContractABI[] = response.data.results.map((result) => {
-        console.log(`Parsing contract: ${result.name} (${result.address})`);
-
-        const parsedFunctions = ABIParser.parseFunctions(
-          result.contractAbi.abi
-        );
-        console.log(
-          `Found functions for Safe proposals: ${parsedFunctions.length}`
+      if (next) {
+        console.warn(
+          `Stopped after ${MAX_PAGES} pages, ${
+            firstPage.data.count - results.length
+          } contracts were not loaded`
         );
+      }
 
-        return {
-          name: result.displayName || result.name,
-          address: result.address,
-          abi: result.contractAbi.abi,
-          parsedFunctions,
-        };
+      await ContractsCache.put({
+        key: firstPageUrl,
+        results,
+        count: firstPage.data.count,
+        fetchedAt: Date.now(),
+        etag: firstPage.headers["etag"] || undefined,
+        lastModified: firstPage.headers["last-modified"] || undefined,
       });
 
+      // Convert API response to our ContractABI format
+      const contracts = results.map((result) => this.toContractABI(result));
+
       console.log(`Successfully loaded contracts: ${contracts.length}`);
       return contracts;
     } catch (error: any) {
       console.error("Error loading contracts from API:", error);
 
+      // Outdated list is better than no list
+      if (cached) {
+        console.warn("Using outdated cached contracts list");
+        return cached.results.map((result) => this.toContractABI(result));
+      }
+
       if (error.response) {
         console.error("API error details:", {
           status: error.response.status,
@@ -136,19 +185,13 @@ export class ContractsAPI {
         },
       });
 
-      const result = response.data;
-      const parsedFunctions = ABIParser.parseFunctions(result.contractAbi.abi);
+      const contract = this.toContractABI(response.data);
 
       console.log(
-        `Contract loaded: ${result.name}, functions: ${parsedFunctions.length}`
+        `Contract loaded: ${contract.name}, functions: ${contract.parsedFunctions.length}`
       );
 
-      return {
-        name: result.displayName || result.name,
-        address: result.address,
-        abi: result.contractAbi.abi,
-        parsedFunctions,
-      };
+      return contract;
     } catch (error: any) {
       if (error.response?.status === 404) {
         console.log(`Contract not found in API: ${address}`);
@@ -159,4 +202,16 @@ export class ContractsAPI {
       throw error;
     }
   }
+
+  private toContractABI(result: ContractAPIResult): ContractABI {
+    return {
+      name: result.displayName || result.name,
+      address: result.address,
+      abi: result.contractAbi.abi,
+      parsedFunctions: ABIParser.parseFunctions(result.contractAbi.abi),
+      trustedForDelegateCall: result.trustedForDelegateCall,
+      source: "sts",
+      description: result.contractAbi.description || undefined,
+    };
+  }
 }
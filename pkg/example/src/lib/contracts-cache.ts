@@ -0,0 +1,97 @@
+/**
+ * IndexedDB cache for contract lists from Safe Transaction Service
+ */
+
+import type { ContractAPIResult } from "./contracts-api";
+
+export interface ContractsCacheEntry {
+  key: string; // Request URL with query
+  results: ContractAPIResult[];
+  count: number;
+  fetchedAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+const DB_NAME = "safe-contracts-cache";
+const DB_VERSION = 1;
+const STORE_NAME = "contracts";
+
+// Cached list is used without revalidation during this time
+export const CONTRACTS_CACHE_TTL = 6 * 60 * 60 * 1000;
+
+export class ContractsCache {
+  private static dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  static isFresh(entry: ContractsCacheEntry): boolean {
+    return Date.now() - entry.fetchedAt < CONTRACTS_CACHE_TTL;
+  }
+
+  static async get(key: string): Promise<ContractsCacheEntry | null> {
+    const db = await this.openDatabase();
+    if (!db) return null;
+
+    return new Promise((resolve) => {
+      const request = db
+        .transaction(STORE_NAME, "readonly")
+        .objectStore(STORE_NAME)
+        .get(key);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => {
+        console.warn("Failed to read contracts cache:", request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  static async put(entry: ContractsCacheEntry): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    return new Promise((resolve) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.warn("Failed to write contracts cache:", transaction.error);
+        resolve();
+      };
+    });
+  }
+
+  static async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    return new Promise((resolve) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).clear();
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => resolve();
+    });
+  }
+
+  // Cache is optional, failures resolve to null instead of throwing
+  private static openDatabase(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    if (typeof window === "undefined" || !window.indexedDB) {
+      return Promise.resolve(null);
+    }
+
+    this.dbPromise = new Promise((resolve) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("IndexedDB unavailable, contracts are not cached");
+        resolve(null);
+      };
+    });
+    return this.dbPromise;
+  }
+}
+
+export default ContractsCache;
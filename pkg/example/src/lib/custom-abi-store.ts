@@ -0,0 +1,94 @@
+/**
+ * User imported ABIs, persisted in localStorage per chainId and address
+ */
+
+import { ContractABI, ContractNatSpec } from "./contract-types";
+import { ABIParser } from "./abi-parser";
+
+interface StoredAbi {
+  name: string;
+  address: string;
+  abi: any[];
+  natspec?: ContractNatSpec;
+  savedAt: string;
+}
+
+const STORAGE_KEY = "safe-custom-abis";
+
+export class CustomAbiStore {
+  static list(chainId: bigint): ContractABI[] {
+    const prefix = `${chainId}:`;
+    return Object.entries(this.read())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, stored]) => this.toContract(stored));
+  }
+
+  static get(chainId: bigint, address: string): ContractABI | null {
+    const stored = this.read()[this.getKey(chainId, address)];
+    return stored ? this.toContract(stored) : null;
+  }
+
+  static save(
+    chainId: bigint,
+    address: string,
+    name: string,
+    abi: any[],
+    natspec?: ContractNatSpec
+  ): ContractABI {
+    const entries = this.read();
+    const stored: StoredAbi = {
+      name,
+      address,
+      abi,
+      natspec,
+      savedAt: new Date().toISOString(),
+    };
+    entries[this.getKey(chainId, address)] = stored;
+    this.write(entries);
+
+    console.log(`Custom ABI saved for ${address} on chain ${chainId}`);
+    return this.toContract(stored);
+  }
+
+  static remove(chainId: bigint, address: string): void {
+    const entries = this.read();
+    delete entries[this.getKey(chainId, address)];
+    this.write(entries);
+  }
+
+  private static toContract(stored: StoredAbi): ContractABI {
+    return {
+      name: stored.name,
+      address: stored.address,
+      abi: stored.abi,
+      parsedFunctions: ABIParser.parseFunctions(stored.abi, stored.natspec),
+      source: "user",
+      natspec: stored.natspec,
+    };
+  }
+
+  private static getKey(chainId: bigint, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+
+  private static read(): { [key: string]: StoredAbi } {
+    if (typeof window === "undefined") {
+      return {};
+    }
+    try {
+      return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}");
+    } catch (error) {
+      console.warn("Failed to read custom ABIs:", error);
+      return {};
+    }
+  }
+
+  private static write(entries: { [key: string]: StoredAbi }): void {
+    if (typeof window === "undefined") {
+      return;
+    }
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  }
+}
+
+export default CustomAbiStore;
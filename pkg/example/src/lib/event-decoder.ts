@@ -0,0 +1,263 @@
+/**
+ * Decoding of event logs and custom revert errors with known ABIs
+ */
+
+import { ethers } from "ethers";
+import { ParsedError, ParsedEvent } from "./contract-types";
+import { ABIParser } from "./abi-parser";
+import { contractRegistry } from "./contract-registry";
+import { DecodedArgument, formatDecodedValue } from "./calldata-decoder";
+import { SimulationLog } from "./simulation";
+
+export interface DecodedLog {
+  address: string;
+  topics: string[];
+  data: string;
+  contractName?: string;
+  name?: string; // Unset when no known event matches topic0
+  signature?: string;
+  args: DecodedArgument[];
+}
+
+export interface DecodedError {
+  name: string;
+  signature: string;
+  selector: string;
+  contractName?: string; // Contract whose ABI defines the error
+  args: DecodedArgument[];
+}
+
+// Definition found in registry ABIs, address is unset for common ABIs
+interface IndexedEntry<T> {
+  definition: T;
+  address?: string;
+  contractName?: string;
+}
+
+// Decoded even when the emitting contract is not in registry.
+// ERC-20 and ERC-721 Transfer share topic0 and differ in indexed params
+const COMMON_ABIS: any[][] = [
+  [
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Approval(address indexed owner, address indexed spender, uint256 value)",
+    "event Deposit(address indexed dst, uint256 wad)",
+    "event Withdrawal(address indexed src, uint256 wad)",
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    "error OwnableUnauthorizedAccount(address account)",
+  ],
+  [
+    "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+    "event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)",
+    "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+  ],
+  [
+    "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+    "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  ],
+  [
+    "event ExecutionSuccess(bytes32 txHash, uint256 payment)",
+    "event ExecutionFailure(bytes32 txHash, uint256 payment)",
+    "event SafeReceived(address indexed sender, uint256 value)",
+    "event ApproveHash(bytes32 indexed approvedHash, address indexed owner)",
+    "event ExecutionFromModuleSuccess(address indexed module)",
+    "event ExecutionFromModuleFailure(address indexed module)",
+  ],
+].map((abi) => JSON.parse(new ethers.Interface(abi).formatJson()));
+
+export class EventDecoder {
+  private static events: Map<string, IndexedEntry<ParsedEvent>[]> | null = null;
+  private static errors: Map<string, IndexedEntry<ParsedError>[]> | null = null;
+  private static indexedContracts = -1;
+
+  static decodeLogs(logs: SimulationLog[]): DecodedLog[] {
+    return logs.map((log) => this.decodeLog(log));
+  }
+
+  /**
+   * Decodes log with the ABI of the emitting contract first, then any known
+   * event with the same topic0 and number of indexed parameters
+   */
+  static decodeLog(log: SimulationLog): DecodedLog {
+    const decoded: DecodedLog = {
+      address: log.address,
+      topics: [...log.topics],
+      data: log.data,
+      contractName: contractRegistry.getContract(log.address)?.name,
+      args: [],
+    };
+
+    if (log.topics.length === 0) {
+      return decoded;
+    }
+
+    const candidates = this.getCandidates(
+      this.getIndexes().events,
+      log.topics[0].toLowerCase(),
+      log.address
+    );
+
+    for (const { definition } of candidates) {
+      const indexedCount = definition.inputs.filter((i) => i.indexed).length;
+      if (indexedCount + 1 !== log.topics.length) continue;
+
+      try {
+        const fragment = ethers.EventFragment.from({
+          type: "event",
+          name: definition.name,
+          inputs: definition.inputs,
+        });
+        const values = new ethers.Interface([fragment]).decodeEventLog(
+          fragment,
+          log.data,
+          log.topics
+        );
+
+        return {
+          ...decoded,
+          name: definition.name,
+          signature: definition.signature,
+          args: this.toArguments(fragment.inputs, values),
+        };
+      } catch (error) {
+        console.warn(`Failed to decode log as ${definition.signature}`);
+      }
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Decodes custom error revert data, target ABI is preferred when several
+   * contracts define the same selector
+   */
+  static decodeError(data: string, target?: string): DecodedError | null {
+    if (!data || data.length < 10) return null;
+
+    const selector = data.slice(0, 10).toLowerCase();
+    const candidates = this.getCandidates(
+      this.getIndexes().errors,
+      selector,
+      target
+    );
+
+    for (const { definition, contractName } of candidates) {
+      try {
+        const fragment = ethers.ErrorFragment.from({
+          type: "error",
+          name: definition.name,
+          inputs: definition.inputs,
+        });
+        const values = new ethers.Interface([fragment]).decodeErrorResult(
+          fragment,
+          data
+        );
+
+        return {
+          name: definition.name,
+          signature: definition.signature,
+          selector,
+          contractName,
+          args: this.toArguments(fragment.inputs, values),
+        };
+      } catch (error) {
+        console.warn(`Failed to decode revert data as ${definition.signature}`);
+      }
+    }
+
+    return null;
+  }
+
+  // InsufficientBalance(uint256,uint256): available=1, required=2
+  static formatError(error: DecodedError): string {
+    const args = error.args.map((arg) => `${arg.name}=${arg.value}`).join(", ");
+    return args ? `${error.signature}: ${args}` : error.signature;
+  }
+
+  private static toArguments(
+    inputs: readonly ethers.ParamType[],
+    values: ethers.Result
+  ): DecodedArgument[] {
+    return inputs.map((input, index) => ({
+      name: input.name || `arg${index}`,
+      type: input.format(),
+      value: formatDecodedValue(values[index], input),
+    }));
+  }
+
+  // Definitions of the given contract go first
+  private static getCandidates<T>(
+    index: Map<string, IndexedEntry<T>[]>,
+    key: string,
+    address?: string
+  ): IndexedEntry<T>[] {
+    const entries = index.get(key) || [];
+    const own = address?.toLowerCase();
+    return [
+      ...entries.filter((entry) => own && entry.address === own),
+      ...entries.filter((entry) => !own || entry.address !== own),
+    ];
+  }
+
+  // Rebuilt when contracts are added to registry
+  private static getIndexes(): {
+    events: Map<string, IndexedEntry<ParsedEvent>[]>;
+    errors: Map<string, IndexedEntry<ParsedError>[]>;
+  } {
+    const contracts = contractRegistry.getAllContracts();
+    if (
+      this.events &&
+      this.errors &&
+      this.indexedContracts === contracts.length
+    ) {
+      return { events: this.events, errors: this.errors };
+    }
+
+    const events = new Map<string, IndexedEntry<ParsedEvent>[]>();
+    const errors = new Map<string, IndexedEntry<ParsedError>[]>();
+    const add = <T>(
+      index: Map<string, IndexedEntry<T>[]>,
+      key: string,
+      entry: IndexedEntry<T>
+    ) => {
+      const entries = index.get(key) || [];
+      entries.push(entry);
+      index.set(key, entries);
+    };
+
+    const sources = [
+      ...contracts.map((contract) => ({
+        abi: contract.abi,
+        address: contract.address.toLowerCase(),
+        contractName: contract.name,
+      })),
+      ...COMMON_ABIS.map((abi) => ({
+        abi,
+        address: undefined,
+        contractName: undefined,
+      })),
+    ];
+
+    sources.forEach(({ abi, address, contractName }) => {
+      ABIParser.parseEvents(abi)
+        .filter((event) => !event.anonymous)
+        .forEach((event) =>
+          add(events, event.topic, { definition: event, address, contractName })
+        );
+      ABIParser.parseErrors(abi).forEach((error) =>
+        add(errors, error.selector, {
+          definition: error,
+          address,
+          contractName,
+        })
+      );
+    });
+
+    this.events = events;
+    this.errors = errors;
+    this.indexedContracts = contracts.length;
+    return { events, errors };
+  }
+}
+
+export default EventDecoder;
@@ -0,0 +1,277 @@
+/**
+ * ERC721 and ERC1155 tokens: standard detection via ERC165, NFTs held by
+ * the Safe from transfer logs and safeTransferFrom calls
+ */
+
+import { ethers } from "ethers";
+import { TRANSFER_TOPIC, getRecentLogs } from "./safe-assets";
+
+export type NftStandard = "ERC721" | "ERC1155";
+
+export interface SafeNft {
+  contractAddress: string;
+  standard: NftStandard;
+  tokenId: bigint;
+  balance: bigint; // Always 1 for ERC721
+  collectionName?: string;
+}
+
+// NFT moved to the recipient, amount is 1 for ERC721
+export interface NftTransferItem {
+  contractAddress: string;
+  tokenId: bigint;
+  amount: bigint;
+}
+
+interface NftTransferCall {
+  contractAddress: string;
+  functionSignature: string;
+  functionParams: any[];
+}
+
+// ERC165 interface ids
+const ERC721_INTERFACE_ID = "0x80ac58cd";
+const ERC1155_INTERFACE_ID = "0xd9b67a26";
+
+// Named parameters for decoding transfers to contracts missing in registry
+export const NFT_TRANSFER_ABI = [
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+  "function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)",
+  "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] values, bytes data)",
+];
+
+const NFT_ABI = [
+  ...NFT_TRANSFER_ABI,
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+  "function name() view returns (string)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+];
+
+const nftInterface = new ethers.Interface(NFT_ABI);
+
+export class NftReader {
+  private provider: ethers.Provider;
+  private standards: Map<string, Promise<NftStandard | null>> = new Map();
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  /**
+   * ERC721 or ERC1155 by supportsInterface, null for other contracts
+   */
+  detectStandard(address: string): Promise<NftStandard | null> {
+    const key = address.toLowerCase();
+    let standard = this.standards.get(key);
+    if (!standard) {
+      standard = this.loadStandard(address);
+      this.standards.set(key, standard);
+    }
+    return standard;
+  }
+
+  /**
+   * Current balance of one token, 0 when the Safe does not hold it
+   */
+  async getHolding(
+    contractAddress: string,
+    tokenId: bigint,
+    safeAddress: string
+  ): Promise<SafeNft | null> {
+    const standard = await this.detectStandard(contractAddress);
+    if (!standard) return null;
+
+    const contract = this.getContract(contractAddress);
+    let balance = 0n;
+    if (standard === "ERC721") {
+      try {
+        const owner: string = await contract.ownerOf(tokenId);
+        balance = owner.toLowerCase() === safeAddress.toLowerCase() ? 1n : 0n;
+      } catch (error) {
+        // Burned or never minted
+      }
+    } else {
+      balance = await contract.balanceOf(safeAddress, tokenId);
+    }
+
+    let collectionName: string | undefined;
+    try {
+      collectionName = await contract.name();
+    } catch (error) {
+      // name() is optional in both standards
+    }
+
+    return {
+      contractAddress: ethers.getAddress(contractAddress),
+      standard,
+      tokenId,
+      balance,
+      collectionName,
+    };
+  }
+
+  /**
+   * NFTs received in recent blocks that the Safe still holds
+   */
+  async findSafeNfts(safeAddress: string): Promise<SafeNft[]> {
+    const safeTopic = ethers.zeroPadValue(safeAddress, 32);
+    const candidates = new Map<
+      string,
+      { contractAddress: string; tokenId: bigint }
+    >();
+    const add = (contractAddress: string, tokenId: bigint) =>
+      candidates.set(`${contractAddress.toLowerCase()}:${tokenId}`, {
+        contractAddress,
+        tokenId,
+      });
+
+    try {
+      const [erc721Logs, singleLogs, batchLogs] = await Promise.all([
+        getRecentLogs(this.provider, [TRANSFER_TOPIC, null, safeTopic]),
+        getRecentLogs(this.provider, [
+          nftInterface.getEvent("TransferSingle")!.topicHash,
+          null,
+          null,
+          safeTopic,
+        ]),
+        getRecentLogs(this.provider, [
+          nftInterface.getEvent("TransferBatch")!.topicHash,
+          null,
+          null,
+          safeTopic,
+        ]),
+      ]);
+
+      // ERC20 transfers have only 3 topics, the token id is not indexed
+      erc721Logs
+        .filter((log) => log.topics.length === 4)
+        .forEach((log) => add(log.address, BigInt(log.topics[3])));
+      [...singleLogs, ...batchLogs].forEach((log) => {
+        const parsed = nftInterface.parseLog(log);
+        if (!parsed) return;
+        const ids: bigint[] =
+          parsed.name === "TransferSingle"
+            ? [parsed.args.id]
+            : Array.from(parsed.args.ids);
+        ids.forEach((id) => add(log.address, id));
+      });
+    } catch (error: any) {
+      console.warn("NFT transfer log scan failed:", error.message);
+    }
+
+    console.log(`NFT candidates found in transfer logs: ${candidates.size}`);
+
+    const holdings = await Promise.all(
+      Array.from(candidates.values()).map(({ contractAddress, tokenId }) =>
+        this.getHolding(contractAddress, tokenId, safeAddress).catch(() => null)
+      )
+    );
+
+    return holdings.filter(
+      (nft): nft is SafeNft => nft !== null && nft.balance > 0n
+    );
+  }
+
+  private getContract(address: string): ethers.Contract {
+    return new ethers.Contract(address, NFT_ABI, this.provider);
+  }
+
+  private async loadStandard(address: string): Promise<NftStandard | null> {
+    const contract = this.getContract(address);
+    try {
+      if (await contract.supportsInterface(ERC721_INTERFACE_ID)) {
+        return "ERC721";
+      }
+      if (await contract.supportsInterface(ERC1155_INTERFACE_ID)) {
+        return "ERC1155";
+      }
+    } catch (error) {
+      console.log(`No ERC165 support for ${address}`);
+    }
+    return null;
+  }
+}
+
+/**
+ * Items with summed amounts per contract and token id, so a token listed
+ * twice is checked and transferred once
+ */
+export function mergeNftTransferItems(
+  items: NftTransferItem[]
+): NftTransferItem[] {
+  const merged = new Map<string, NftTransferItem>();
+
+  items.forEach((item) => {
+    const key = `${item.contractAddress.toLowerCase()}:${item.tokenId}`;
+    const total = merged.get(key) || { ...item, amount: 0n };
+    total.amount += item.amount;
+    merged.set(key, total);
+  });
+
+  return Array.from(merged.values());
+}
+
+/**
+ * safeTransferFrom calls of the items: one call per ERC721 token,
+ * one (batch) call per ERC1155 contract
+ */
+export function buildNftTransferCalls(
+  items: (NftTransferItem & { standard: NftStandard })[],
+  from: string,
+  recipient: string
+): NftTransferCall[] {
+  const calls: NftTransferCall[] = [];
+  const erc1155ByContract = new Map<string, NftTransferItem[]>();
+
+  items.forEach((item) => {
+    if (item.standard === "ERC721") {
+      calls.push({
+        contractAddress: item.contractAddress,
+        functionSignature: "safeTransferFrom(address,address,uint256)",
+        functionParams: [from, recipient, item.tokenId],
+      });
+      return;
+    }
+    const key = item.contractAddress.toLowerCase();
+    erc1155ByContract.set(key, [...(erc1155ByContract.get(key) || []), item]);
+  });
+
+  erc1155ByContract.forEach((contractItems) => {
+    const contractAddress = contractItems[0].contractAddress;
+    if (contractItems.length === 1) {
+      calls.push({
+        contractAddress,
+        functionSignature:
+          "safeTransferFrom(address,address,uint256,uint256,bytes)",
+        functionParams: [
+          from,
+          recipient,
+          contractItems[0].tokenId,
+          contractItems[0].amount,
+          "0x",
+        ],
+      });
+      return;
+    }
+    calls.push({
+      contractAddress,
+      functionSignature:
+        "safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)",
+      functionParams: [
+        from,
+        recipient,
+        contractItems.map((item) => item.tokenId),
+        contractItems.map((item) => item.amount),
+        "0x",
+      ],
+    });
+  });
+
+  return calls;
+}
+
+export default NftReader;
@@ -20,10 +20,19 @@ export interface UserProposalsFilter {
   limit?: number;
   offset?: number;
   requiresUserSignature?: boolean; // Only those that require user signature
+  includeNestedSafes?: boolean; // Also Safes owned by the user's Safes
   sortBy?: "submissionDate" | "nonce" | "modified";
   sortOrder?: "asc" | "desc";
 }
 
+// Single call packed into a MultiSend batch
+export interface BatchedCallDetails {
+  to: string;
+  value: string; // In ETH
+  data: string;
+  functionSignature: string;
+}
+
 // Interface for universal operation result
 export interface UniversalOperationResult {
   transactionHash: string;
@@ -34,7 +43,9 @@ export interface UniversalOperationResult {
     value: string;
     data: string;
     nonce: number;
+    operation?: number; // 0 = Call, 1 = DelegateCall
   };
+  batchedCalls?: BatchedCallDetails[]; // Set only for MultiSend batches
 }
 
 // Class for working with Safe Transaction Service (STS)
@@ -192,10 +203,25 @@ export class SafeOffChain {
       ? [filter.safeAddress]
       : await this.getUserSafes(filter.userAddress);
 
+    // Child Safes where one of the user's Safes is an owner
+    const nestedSafes =
+      filter.includeNestedSafes && !filter.safeAddress
+        ? await this.getNestedSafes(filter.userAddress)
+        : [];
+    nestedSafes.forEach(({ safe }) => {
+      if (!userSafes.some((s) => s.toLowerCase() === safe.toLowerCase())) {
+        userSafes.push(safe);
+      }
+    });
+
     for (const safeAddress of userSafes) {
       try {
-        // Check if user is owner of this Safe
-        const isUserOwner = await this.isOwner(safeAddress, filter.userAddress);
+        // Check if user is owner of this Safe (directly or via own Safe)
+        const isNested = nestedSafes.some(
+          ({ safe }) => safe.toLowerCase() === safeAddress.toLowerCase()
+        );
+        const isUserOwner =
+          isNested || (await this.isOwner(safeAddress, filter.userAddress));
         if (!isUserOwner) {
           continue;
         }
@@ -284,6 +310,26 @@ export class SafeOffChain {
     }
   }
 
+  // Get all proposals of one Safe as stored in STS
+  async getSafeProposals(safeAddress: string): Promise<UserProposal[]> {
+    return await this.getSTSProposalsOnly(safeAddress);
+  }
+
+  // Get Safes owned by the user's Safes, with the owning parent Safe
+  async getNestedSafes(
+    userAddress: string
+  ): Promise<{ safe: string; parentSafe: string }[]> {
+    const nested: { safe: string; parentSafe: string }[] = [];
+    const userSafes = await this.getUserSafes(userAddress);
+
+    for (const parentSafe of userSafes) {
+      const childSafes = await this.getUserSafes(parentSafe);
+      childSafes.forEach((safe) => nested.push({ safe, parentSafe }));
+    }
+
+    return nested;
+  }
+
   // Get user Safe contracts
   async getUserSafes(userAddress: string): Promise<string[]> {
     try {
@@ -1,9 +1,14 @@
 import { ethers } from "ethers";
 import { getSafeConfig } from "./network-types";
-import Safe from "@safe-global/protocol-kit";
+import Safe, {
+  EthSafeSignature,
+  estimateSafeTxGas,
+  estimateTxBaseGas,
+} from "@safe-global/protocol-kit";
 import {
   SafeTransaction,
   MetaTransactionData,
+  OperationType,
   TransactionResult,
 } from "@safe-global/types-kit";
 import {
@@ -16,15 +21,62 @@ import {
   createContractNetworksConfig,
   DEFAULT_SAFE_VERSION,
 } from "./safe-common";
-import { SafeOffChain, UniversalOperationResult } from "./offchain";
+import {
+  SafeOffChain,
+  UniversalOperationResult,
+  BatchedCallDetails,
+  UserProposal,
+} from "./offchain";
 import { Network } from "./network-types";
 import { ParsedFunction, FunctionFormData } from "./contract-types";
 import { contractRegistry } from "./contract-registry";
+import { ParameterConverter } from "./parameter-converter";
+import {
+  SignatureVerifier,
+  SignatureVerificationReport,
+  SignatureKind,
+  SafeTxHashData,
+  getSafeTxHashData,
+  extractContractSignatureData,
+  buildApprovedHashSignature,
+} from "./signature-verification";
+import type { SafeMultisigConfirmationResponse } from "@safe-global/types-kit";
+import {
+  TransactionSimulator,
+  SimulationResult,
+  SimulationLog,
+  decodeRevertReason,
+} from "./simulation";
+import {
+  DecodedArgument,
+  DecodedCall,
+  formatDecodedValue,
+} from "./calldata-decoder";
+import { TokenMetadata, TokenMetadataReader } from "./token-metadata";
+import { SafeAssetsReader, SafeAssetsResult } from "./safe-assets";
+import {
+  TransferRequest,
+  TransferTotal,
+  formatTransferTotal,
+  sumTransfers,
+  toTransferCall,
+  validateTransfers,
+} from "./transfers";
+import { PayoutCsvRow, PayoutRowError } from "./payout-csv";
+import {
+  NftReader,
+  NftStandard,
+  NftTransferItem,
+  SafeNft,
+  buildNftTransferCalls,
+  mergeNftTransferItems,
+} from "./nft";
 
 export interface TransactionParams {
   to: string;
   value: bigint;
   data: string;
+  operation?: OperationType;
 }
 
 export interface SafeConnectionForm {
@@ -48,8 +100,51 @@ export interface UniversalFunctionCall {
   functionSignature: string;
   functionParams: any[];
   value?: bigint; // Now in wei as BigInt
+  operation?: OperationType; // Call by default
+  untrustedDelegateCallTarget?: string; // Untrusted target the owner explicitly accepted
 }
 
+// Gas and refund fields of a Safe transaction, empty values use defaults
+export interface SafeGasOptions {
+  safeTxGas?: string;
+  baseGas?: string;
+  gasPrice?: string; // Refund price per gas unit in wei of gasToken
+  gasToken?: string; // Zero address refunds in native coin
+  refundReceiver?: string; // Zero address refunds tx.origin
+  estimateSafeTxGas?: boolean;
+}
+
+// Owner management operations supported by Safe OwnerManager
+export type OwnerManagementAction =
+  | { type: "addOwner"; ownerAddress: string; threshold: number }
+  | { type: "removeOwner"; ownerAddress: string; threshold: number }
+  | { type: "swapOwner"; oldOwnerAddress: string; newOwnerAddress: string }
+  | { type: "changeThreshold"; threshold: number };
+
+export interface OwnerSettingsDiff {
+  currentOwners: string[];
+  newOwners: string[];
+  addedOwners: string[];
+  removedOwners: string[];
+  currentThreshold: number;
+  newThreshold: number;
+}
+
+export interface OwnerManagementResult extends UniversalOperationResult {
+  action: OwnerManagementAction;
+  settingsDiff: OwnerSettingsDiff;
+}
+
+// Head of the owners linked list in Safe OwnerManager
+export const SENTINEL_OWNERS = "0x0000000000000000000000000000000000000001";
+
+const OWNER_MANAGER_ABI = [
+  "function addOwnerWithThreshold(address owner, uint256 _threshold)",
+  "function removeOwner(address prevOwner, address owner, uint256 _threshold)",
+  "function swapOwner(address prevOwner, address oldOwner, address newOwner)",
+  "function changeThreshold(uint256 _threshold)",
+];
+
 interface ExecuteTransactionResponse {
   hash: string;
   response: TransactionResult;
@@ -64,10 +159,20 @@ export class SafeOnChain {
   private networkConfig = getCurrentNetworkConfig();
   private contractNetworks = createContractNetworksConfig(this.networkConfig);
   private safeSdk: Safe | null = null;
+  private tokenMetadataReader: TokenMetadataReader;
+  private safeAssetsReader: SafeAssetsReader;
+  private nftReader: NftReader;
   currentSafeAddress: string | null = null;
 
   constructor(network: Network) {
     this.network = network;
+    this.tokenMetadataReader = new TokenMetadataReader(network.provider);
+    this.safeAssetsReader = new SafeAssetsReader(
+      network.provider,
+      this.networkConfig,
+      this.tokenMetadataReader
+    );
+    this.nftReader = new NftReader(network.provider);
   }
 
   private sortOwners(owners: string[]): string[] {
@@ -230,6 +335,76 @@ export class SafeOnChain {
     }
   }
 
+  // Read nonce of any Safe directly from the contract, without connecting to it
+  async getOnChainNonce(safeAddress: string): Promise<number> {
+    const safeContract = new ethers.Contract(
+      safeAddress,
+      ["function nonce() view returns (uint256)"],
+      this.network.provider
+    );
+    const nonce: bigint = await safeContract.nonce();
+    return Number(nonce);
+  }
+
+  // Dry-run a call from the given Safe, no signatures required
+  async simulateTransaction(
+    safeAddress: string,
+    transactionParams: TransactionParams
+  ): Promise<SimulationResult> {
+    const simulator = new TransactionSimulator(
+      this.network.provider,
+      this.networkConfig.contracts.simulateTxAccessor
+    );
+    return await simulator.simulate(safeAddress, {
+      to: transactionParams.to,
+      value: transactionParams.value,
+      data: transactionParams.data,
+      operation: transactionParams.operation ?? OperationType.Call,
+    });
+  }
+
+  // Logs from the receipt of an executed transaction
+  async getTransactionLogs(transactionHash: string): Promise<SimulationLog[]> {
+    const receipt = await this.network.provider.getTransactionReceipt(
+      transactionHash
+    );
+    if (!receipt) {
+      throw new Error(`Transaction receipt not found: ${transactionHash}`);
+    }
+    return receipt.logs.map((log) => ({
+      address: log.address,
+      topics: [...log.topics],
+      data: log.data,
+    }));
+  }
+
+  // Read owners of any Safe directly from the contract
+  async getOnChainOwners(safeAddress: string): Promise<string[]> {
+    const safeContract = new ethers.Contract(
+      safeAddress,
+      ["function getOwners() view returns (address[])"],
+      this.network.provider
+    );
+    const owners: string[] = await safeContract.getOwners();
+    return [...owners];
+  }
+
+  // Check confirmations against signatures and the on-chain owner list
+  async verifyConfirmations(
+    safeAddress: string,
+    safeTxHash: string,
+    confirmations: SafeMultisigConfirmationResponse[],
+    txData?: SafeTxHashData
+  ): Promise<SignatureVerificationReport> {
+    const verifier = new SignatureVerifier(this.network.provider);
+    return await verifier.verifyConfirmations(
+      safeAddress,
+      safeTxHash,
+      confirmations,
+      txData
+    );
+  }
+
   async getCurrentSafeInfo() {
     const safeSdk = this.getSafeSdk();
 
@@ -259,13 +434,20 @@ export class SafeOnChain {
   }
 
   encodeFunctionCall(functionCall: UniversalFunctionCall): string {
+    // Plain value transfer
+    if (!functionCall.functionSignature) {
+      return "0x";
+    }
+
     try {
-      const functionAbi = [`function ${functionCall.functionSignature}`];
-      const contractInterface = new ethers.Interface(functionAbi);
-      const functionName = functionCall.functionSignature.split("(")[0];
+      // Fragment itself is passed, overloads make name lookups ambiguous
+      const fragment = ethers.FunctionFragment.from(
+        `function ${functionCall.functionSignature}`
+      );
+      const contractInterface = new ethers.Interface([fragment]);
 
       return contractInterface.encodeFunctionData(
-        functionName,
+        fragment,
         functionCall.functionParams
       );
     } catch (error) {
@@ -296,12 +478,52 @@ export class SafeOnChain {
     contractAddress: string,
     selectedFunction: ParsedFunction,
     formData: FunctionFormData,
-    nonce?: number
+    nonce?: number,
+    gasOptions?: SafeGasOptions,
+    operation?: Pick<
+      UniversalFunctionCall,
+      "operation" | "untrustedDelegateCallTarget"
+    >
   ): Promise<UniversalOperationResult> {
     if (!this.currentSafeAddress) {
       throw new Error("Safe address not defined");
     }
 
+    // Function is resolved by selector so an overload cannot be swapped
+    const registryFunction = contractRegistry.getFunction(
+      contractAddress,
+      selectedFunction.selector
+    );
+    if (contractRegistry.hasContract(contractAddress) && !registryFunction) {
+      throw new Error(
+        `Function ${selectedFunction.signature} (${selectedFunction.selector}) not found in contract ABI`
+      );
+    }
+
+    const functionCall = {
+      ...this.buildStructuredFunctionCall(
+        contractAddress,
+        registryFunction || selectedFunction,
+        formData
+      ),
+      ...operation,
+    };
+
+    return await this.createUniversalTransactionHash(
+      functionCall,
+      nonce,
+      gasOptions
+    );
+  }
+
+  /**
+   * Converts structured form data into UniversalFunctionCall format
+   */
+  buildStructuredFunctionCall(
+    contractAddress: string,
+    selectedFunction: ParsedFunction,
+    formData: FunctionFormData
+  ): UniversalFunctionCall {
     // Convert ETH to wei (BigInt)
     let valueInWei: bigint = 0n;
     if (
@@ -312,75 +534,367 @@ export class SafeOnChain {
       valueInWei = ethers.parseEther(formData.ethValue.toString());
     }
 
-    // Convert structured data to UniversalFunctionCall format
-    const functionCall: UniversalFunctionCall = {
+    return {
       contractAddress,
       functionSignature: selectedFunction.signature,
-      functionParams: this.convertFormDataToParams(
-        selectedFunction,
-        formData.parameters
-      ),
+      functionParams: this.convertFormDataToParams(selectedFunction, formData),
       value: valueInWei,
     };
+  }
+
+  /**
+   * Executes view/pure function through the provider, optionally with the
+   * Safe as msg.sender, and decodes the result by ABI outputs
+   */
+  async callReadOnlyFunction(
+    contractAddress: string,
+    selectedFunction: ParsedFunction,
+    formData: FunctionFormData,
+    from?: string
+  ): Promise<DecodedArgument[]> {
+    const fragment = ethers.FunctionFragment.from({
+      type: "function",
+      name: selectedFunction.name,
+      inputs: selectedFunction.inputs,
+      outputs: selectedFunction.outputs,
+      stateMutability: selectedFunction.stateMutability,
+    });
+    const contractInterface = new ethers.Interface([fragment]);
+    const data = contractInterface.encodeFunctionData(
+      fragment,
+      this.convertFormDataToParams(selectedFunction, formData)
+    );
+
+    console.log(`Calling ${selectedFunction.signature} on ${contractAddress}`);
+
+    let result: string;
+    try {
+      result = await this.network.provider.call({
+        to: contractAddress,
+        data,
+        from,
+      });
+    } catch (error: any) {
+      if (error.data) {
+        throw new Error(
+          `Call reverted: ${decodeRevertReason(error.data, contractAddress)}`
+        );
+      }
+      throw error;
+    }
+
+    if (result === "0x" && fragment.outputs.length > 0) {
+      throw new Error("Call returned no data, address may not be a contract");
+    }
 
-    return await this.createUniversalTransactionHash(functionCall, nonce);
+    const values = contractInterface.decodeFunctionResult(fragment, result);
+    return fragment.outputs.map((output, index) => ({
+      name: output.name || `output${index}`,
+      type: output.format(),
+      value: formatDecodedValue(values[index], output),
+    }));
   }
 
   private convertFormDataToParams(
     selectedFunction: ParsedFunction,
-    parameters: { [key: string]: any }
+    formData: FunctionFormData
   ): any[] {
-    return selectedFunction.inputs.map((input, index) => {
-      const paramName = input.name || `param${index}`;
-      const value = parameters[paramName];
-      return this.convertParameterValue(value, input.type);
-    });
+    return ParameterConverter.convertParameters(
+      selectedFunction.inputs,
+      formData.parameters,
+      formData.tokenUnits
+    );
+  }
+
+  /**
+   * decimals() and symbol() of an ERC20 contract, null for other contracts
+   */
+  async getTokenMetadata(address: string): Promise<TokenMetadata | null> {
+    return this.tokenMetadataReader.read(address);
   }
 
   /**
-   * Converts parameter value according to Solidity type
+   * Adds token unit values to amount arguments of decoded ERC20 calls
    */
-  private convertParameterValue(value: any, type: string): any {
-    if (!value || value === "") {
-      throw new Error(`Parameter of type ${type} cannot be empty`);
+  async annotateTokenAmounts(call: DecodedCall): Promise<DecodedCall> {
+    return this.tokenMetadataReader.annotateCall(call);
+  }
+
+  /**
+   * Native and ERC20 balances of the connected Safe
+   */
+  async getSafeAssets(): Promise<SafeAssetsResult> {
+    if (!this.currentSafeAddress) {
+      throw new Error("Safe address not defined");
+    }
+    return this.safeAssetsReader.getAssets(this.currentSafeAddress);
+  }
+
+  /**
+   * Amount per asset the transfers move next to the Safe balance of it
+   */
+  async getTransferTotals(
+    transfers: TransferRequest[]
+  ): Promise<TransferTotal[]> {
+    const safeAddress = this.currentSafeAddress;
+    if (!safeAddress) {
+      throw new Error("Safe address not defined");
     }
 
-    switch (type) {
-      case "bool":
-        return value === "true" || value === true;
+    return Promise.all(
+      Array.from(sumTransfers(transfers).values()).map(
+        async ({ tokenAddress, amount }) => {
+          const [balance, metadata] = await Promise.all([
+            this.safeAssetsReader.getBalance(tokenAddress, safeAddress),
+            tokenAddress ? this.tokenMetadataReader.read(tokenAddress) : null,
+          ]);
+          if (tokenAddress && !metadata) {
+            throw new Error(`${tokenAddress} is not an ERC20 token`);
+          }
 
-      case "address":
-        if (!/^0x[a-fA-F0-9]{40}$/.test(value)) {
-          throw new Error(`Invalid address format: ${value}`);
+          return {
+            tokenAddress,
+            symbol: metadata?.symbol || this.networkConfig.nativeSymbol,
+            decimals: metadata?.decimals ?? 18,
+            amount,
+            balance,
+          };
         }
-        return value;
+      )
+    );
+  }
 
-      case "string":
-        return value.toString();
+  /**
+   * Resolves token decimals of CSV payout rows and converts them to
+   * transfers. Invalid rows are reported by line and left out
+   */
+  async validatePayoutRows(rows: PayoutCsvRow[]): Promise<{
+    transfers: TransferRequest[];
+    errors: PayoutRowError[];
+    totals: TransferTotal[];
+  }> {
+    const nativeNames = ["native", this.networkConfig.nativeSymbol];
+    const errors: PayoutRowError[] = [];
+    const transfers: TransferRequest[] = [];
+
+    for (const row of rows) {
+      // An empty cell must not silently become a native coin payout
+      if (!row.token) {
+        errors.push({
+          line: row.line,
+          message: 'Token is required: an ERC20 address or "native"',
+        });
+        continue;
+      }
 
-      case "uint256":
-      case "uint":
-        return ethers.parseUnits(value.toString(), 0).toString();
+      const isNative = nativeNames.some(
+        (name) => name.toLowerCase() === row.token.toLowerCase()
+      );
 
-      default:
-        if (type.startsWith("uint")) {
-          return ethers.parseUnits(value.toString(), 0).toString();
+      let recipient: string;
+      try {
+        recipient = ethers.getAddress(row.recipient);
+      } catch (error) {
+        errors.push({
+          line: row.line,
+          message: ethers.isHexString(row.recipient, 20)
+            ? `Invalid address checksum ${row.recipient}`
+            : `Invalid recipient address ${row.recipient}`,
+        });
+        continue;
+      }
+
+      let tokenAddress: string | null = null;
+      let decimals = 18;
+      if (!isNative) {
+        if (!ethers.isAddress(row.token)) {
+          errors.push({
+            line: row.line,
+            message: `Token must be an address or "native", got ${row.token}`,
+          });
+          continue;
         }
-        if (type.startsWith("bytes")) {
-          if (!/^0x[a-fA-F0-9]*$/.test(value)) {
-            throw new Error(`Invalid bytes format for ${type}: ${value}`);
-          }
-          return value;
+        const metadata = await this.tokenMetadataReader.read(row.token);
+        if (!metadata) {
+          errors.push({
+            line: row.line,
+            message: `${row.token} is not an ERC20 token`,
+          });
+          continue;
         }
+        tokenAddress = ethers.getAddress(row.token);
+        decimals = metadata.decimals;
+      }
+
+      let amount: bigint;
+      try {
+        amount = ethers.parseUnits(row.amount, decimals);
+      } catch (error) {
+        errors.push({
+          line: row.line,
+          message: `Amount ${row.amount} is not a number with at most ${decimals} decimal places`,
+        });
+        continue;
+      }
+      if (amount <= 0n) {
+        errors.push({
+          line: row.line,
+          message: "Amount must be greater than 0",
+        });
+        continue;
+      }
+
+      transfers.push({ tokenAddress, recipient, amount });
+    }
+
+    const totals =
+      transfers.length > 0 ? await this.getTransferTotals(transfers) : [];
+
+    return { transfers, errors, totals };
+  }
+
+  /**
+   * Creates native coin and ERC20 transfers as one Safe transaction,
+   * several transfers are batched via MultiSendCallOnly.
+   * Fails when the Safe does not hold the total of any asset
+   */
+  async createTransferTransactionHash(
+    transfers: TransferRequest[],
+    nonce?: number,
+    gasOptions?: SafeGasOptions
+  ): Promise<UniversalOperationResult> {
+    const validTransfers = validateTransfers(transfers);
+
+    const shortfalls = (await this.getTransferTotals(validTransfers)).filter(
+      (total) => total.amount > total.balance
+    );
+    if (shortfalls.length > 0) {
+      throw new Error(
+        "Insufficient Safe balance: " +
+          shortfalls
+            .map(
+              (total) =>
+                `${formatTransferTotal(total)} needed, ${ethers.formatUnits(
+                  total.balance,
+                  total.decimals
+                )} available`
+            )
+            .join("; ")
+      );
+    }
+
+    console.log("Creating transfers:", validTransfers.length);
+
+    return this.createBatchTransactionHash(
+      validTransfers.map(toTransferCall),
+      nonce,
+      gasOptions
+    );
+  }
+
+  /**
+   * ERC721 or ERC1155 by ERC165 supportsInterface, null for other contracts
+   */
+  async detectNftStandard(address: string): Promise<NftStandard | null> {
+    return this.nftReader.detectStandard(address);
+  }
+
+  /**
+   * NFTs the connected Safe received in recent blocks and still holds
+   */
+  async getSafeNfts(): Promise<SafeNft[]> {
+    if (!this.currentSafeAddress) {
+      throw new Error("Safe address not defined");
+    }
+    return this.nftReader.findSafeNfts(this.currentSafeAddress);
+  }
+
+  /**
+   * Balance of one NFT held by the connected Safe, throws for non-NFT contracts
+   */
+  async getNftHolding(
+    contractAddress: string,
+    tokenId: bigint
+  ): Promise<SafeNft> {
+    if (!this.currentSafeAddress) {
+      throw new Error("Safe address not defined");
+    }
+
+    const nft = await this.nftReader.getHolding(
+      contractAddress,
+      tokenId,
+      this.currentSafeAddress
+    );
+    if (!nft) {
+      throw new Error(
+        `${contractAddress} does not support ERC721 or ERC1155 (ERC165)`
+      );
+    }
+    return nft;
+  }
+
+  /**
+   * Creates safeTransferFrom calls of NFTs to one recipient, ERC1155 tokens
+   * of the same contract go in one safeBatchTransferFrom.
+   * Fails when the Safe does not hold an item
+   */
+  async createNftTransferTransactionHash(
+    recipient: string,
+    items: NftTransferItem[],
+    nonce?: number,
+    gasOptions?: SafeGasOptions
+  ): Promise<UniversalOperationResult> {
+    const safeAddress = this.currentSafeAddress;
+    if (!safeAddress) {
+      throw new Error("Safe address not defined");
+    }
+    if (!ethers.isAddress(recipient)) {
+      throw new Error(`Invalid recipient address ${recipient}`);
+    }
+    if (items.length === 0) {
+      throw new Error("Select at least one NFT");
+    }
 
-        // For other types return as is
-        return value;
+    const invalidItem = items.find((item) => item.amount <= 0n);
+    if (invalidItem) {
+      throw new Error(
+        `Amount of token #${invalidItem.tokenId} must be greater than 0`
+      );
     }
+
+    // Repeated tokens are checked against the balance with their total amount
+    const checkedItems = await Promise.all(
+      mergeNftTransferItems(items).map(async (item) => {
+        const nft = await this.getNftHolding(
+          item.contractAddress,
+          item.tokenId
+        );
+        if (nft.standard === "ERC721" && item.amount !== 1n) {
+          throw new Error(`ERC721 token #${item.tokenId} amount must be 1`);
+        }
+        if (item.amount > nft.balance) {
+          throw new Error(
+            `Safe holds ${nft.balance} of token #${item.tokenId} (${nft.contractAddress}), ${item.amount} requested`
+          );
+        }
+        return { ...item, standard: nft.standard };
+      })
+    );
+
+    const calls = buildNftTransferCalls(
+      checkedItems,
+      safeAddress,
+      ethers.getAddress(recipient)
+    );
+    console.log("Creating NFT transfers:", calls.length);
+
+    return this.createBatchTransactionHash(calls, nonce, gasOptions);
   }
 
   async createUniversalTransactionHash(
     functionCall: UniversalFunctionCall,
-    nonce?: number
+    nonce?: number,
+    gasOptions?: SafeGasOptions
   ): Promise<UniversalOperationResult> {
     if (!this.currentSafeAddress) {
       throw new Error("Safe address not defined");
@@ -390,20 +904,27 @@ export class SafeOnChain {
       contract: functionCall.contractAddress,
       function: functionCall.functionSignature,
       value: ethers.formatEther(functionCall.value || 0n) + " ETH",
+      operation: functionCall.operation ?? OperationType.Call,
       nonce: nonce !== undefined ? nonce : "auto",
     });
 
+    if (functionCall.operation === OperationType.DelegateCall) {
+      this.validateDelegateCall(functionCall);
+    }
+
     const encodedData = this.encodeFunctionCall(functionCall);
 
     const transactionParams: TransactionParams = {
       to: functionCall.contractAddress,
       value: functionCall.value || 0n,
       data: encodedData,
+      operation: functionCall.operation,
     };
 
     const safeTransaction = await this.createSafeTransaction(
       transactionParams,
-      nonce
+      nonce,
+      gasOptions
     );
     const transactionHash = await this.getSafeSdk().getTransactionHash(
       safeTransaction
@@ -420,15 +941,446 @@ export class SafeOnChain {
         value: ethers.formatEther(transactionParams.value),
         data: transactionParams.data,
         nonce: safeTransaction.data.nonce,
+        operation: safeTransaction.data.operation,
+      },
+    };
+  }
+
+  /**
+   * Delegatecalls run foreign code with the Safe storage and funds,
+   * only targets trusted by STS pass without explicit override
+   */
+  private validateDelegateCall(functionCall: UniversalFunctionCall): void {
+    if (functionCall.value && functionCall.value > 0n) {
+      throw new Error(
+        "DelegateCall does not transfer value. Set value to 0 or use Call"
+      );
+    }
+
+    if (
+      contractRegistry.isTrustedForDelegateCall(functionCall.contractAddress)
+    ) {
+      console.log(
+        "DelegateCall target is trusted:",
+        functionCall.contractAddress
+      );
+      return;
+    }
+
+    // Acknowledgement only covers the address it was given for
+    const acceptedTarget = functionCall.untrustedDelegateCallTarget;
+    if (
+      !acceptedTarget ||
+      acceptedTarget.toLowerCase() !==
+        functionCall.contractAddress.toLowerCase()
+    ) {
+      throw new Error(
+        `DelegateCall to ${functionCall.contractAddress} is blocked: contract is not trusted for delegatecall. ` +
+          "It could take over the Safe, change owners or drain funds"
+      );
+    }
+
+    console.warn(
+      "⚠️ DELEGATECALL TO UNTRUSTED CONTRACT ⚠️",
+      functionCall.contractAddress,
+      "- target code gets full control over the Safe"
+    );
+  }
+
+  /**
+   * Creates one Safe transaction that executes several calls via MultiSendCallOnly
+   */
+  async createBatchTransactionHash(
+    functionCalls: UniversalFunctionCall[],
+    nonce?: number,
+    gasOptions?: SafeGasOptions
+  ): Promise<UniversalOperationResult> {
+    if (!this.currentSafeAddress) {
+      throw new Error("Safe address not defined");
+    }
+
+    if (functionCalls.length === 0) {
+      throw new Error("Batch is empty. Add at least one call");
+    }
+
+    // MultiSendCallOnly reverts on delegatecalls
+    if (
+      functionCalls.length > 1 &&
+      functionCalls.some(
+        (call) => call.operation === OperationType.DelegateCall
+      )
+    ) {
+      throw new Error(
+        "DelegateCall cannot be batched. Create it as a separate transaction"
+      );
+    }
+
+    // A single call does not need MultiSend
+    if (functionCalls.length === 1) {
+      return await this.createUniversalTransactionHash(
+        functionCalls[0],
+        nonce,
+        gasOptions
+      );
+    }
+
+    console.log("Creating batch transaction:", {
+      calls: functionCalls.length,
+      nonce: nonce !== undefined ? nonce : "auto",
+    });
+
+    const batchedCalls: BatchedCallDetails[] = functionCalls.map(
+      (functionCall) => ({
+        to: functionCall.contractAddress,
+        value: ethers.formatEther(functionCall.value || 0n),
+        data: this.encodeFunctionCall(functionCall),
+        functionSignature: functionCall.functionSignature,
+      })
+    );
+
+    const metaTransactions: MetaTransactionData[] = functionCalls.map(
+      (functionCall, index) => ({
+        to: functionCall.contractAddress,
+        value: (functionCall.value || 0n).toString(),
+        data: batchedCalls[index].data,
+        operation: OperationType.Call,
+      })
+    );
+
+    const safeSdk = this.getSafeSdk();
+    const safeTransaction = await this.buildSafeTransaction(
+      metaTransactions,
+      nonce,
+      gasOptions,
+      true
+    );
+    const transactionHash = await safeSdk.getTransactionHash(safeTransaction);
+
+    console.log("Batch transaction hash created:", transactionHash);
+
+    return {
+      transactionHash,
+      safeTransaction,
+      encodedData: safeTransaction.data.data,
+      transactionDetails: {
+        to: safeTransaction.data.to,
+        value: ethers.formatEther(safeTransaction.data.value),
+        data: safeTransaction.data.data,
+        nonce: safeTransaction.data.nonce,
+      },
+      batchedCalls,
+    };
+  }
+
+  /**
+   * Creates a self-call that changes owners or threshold of the connected Safe
+   */
+  async createOwnerManagementTransactionHash(
+    action: OwnerManagementAction,
+    nonce?: number
+  ): Promise<OwnerManagementResult> {
+    if (!this.currentSafeAddress) {
+      throw new Error("Safe address not defined");
+    }
+
+    const safeSdk = this.getSafeSdk();
+    const [currentOwners, currentThreshold] = await Promise.all([
+      safeSdk.getOwners(),
+      safeSdk.getThreshold(),
+    ]);
+
+    const ownerManager = new ethers.Interface(OWNER_MANAGER_ABI);
+    let data: string;
+    let newOwners: string[];
+    let newThreshold: number;
+
+    switch (action.type) {
+      case "addOwner": {
+        const owner = this.validateNewOwner(action.ownerAddress, currentOwners);
+        // addOwner inserts the new owner at the head of the linked list
+        newOwners = [owner, ...currentOwners];
+        newThreshold = action.threshold;
+        data = ownerManager.encodeFunctionData("addOwnerWithThreshold", [
+          owner,
+          newThreshold,
+        ]);
+        break;
+      }
+
+      case "removeOwner": {
+        const owner = this.findOwner(action.ownerAddress, currentOwners);
+        newOwners = currentOwners.filter((o) => o !== owner);
+        newThreshold = action.threshold;
+        data = ownerManager.encodeFunctionData("removeOwner", [
+          this.getPrevOwner(owner, currentOwners),
+          owner,
+          newThreshold,
+        ]);
+        break;
+      }
+
+      case "swapOwner": {
+        const oldOwner = this.findOwner(action.oldOwnerAddress, currentOwners);
+        const newOwner = this.validateNewOwner(
+          action.newOwnerAddress,
+          currentOwners
+        );
+        newOwners = currentOwners.map((o) => (o === oldOwner ? newOwner : o));
+        newThreshold = currentThreshold;
+        data = ownerManager.encodeFunctionData("swapOwner", [
+          this.getPrevOwner(oldOwner, currentOwners),
+          oldOwner,
+          newOwner,
+        ]);
+        break;
+      }
+
+      case "changeThreshold": {
+        newOwners = currentOwners;
+        newThreshold = action.threshold;
+        data = ownerManager.encodeFunctionData("changeThreshold", [
+          newThreshold,
+        ]);
+        break;
+      }
+    }
+
+    if (!Number.isInteger(newThreshold) || newThreshold < 1) {
+      throw new Error("Threshold must be greater than 0");
+    }
+    if (newThreshold > newOwners.length) {
+      throw new Error(
+        `Threshold ${newThreshold} cannot be greater than number of owners (${newOwners.length})`
+      );
+    }
+
+    const settingsDiff: OwnerSettingsDiff = {
+      currentOwners,
+      newOwners,
+      addedOwners: newOwners.filter((o) => !currentOwners.includes(o)),
+      removedOwners: currentOwners.filter((o) => !newOwners.includes(o)),
+      currentThreshold,
+      newThreshold,
+    };
+
+    console.log("Owner management transaction:", action.type, settingsDiff);
+
+    const transactionParams: TransactionParams = {
+      to: this.currentSafeAddress,
+      value: 0n,
+      data,
+    };
+
+    const safeTransaction = await this.createSafeTransaction(
+      transactionParams,
+      nonce
+    );
+    const transactionHash = await safeSdk.getTransactionHash(safeTransaction);
+
+    return {
+      transactionHash,
+      safeTransaction,
+      encodedData: data,
+      transactionDetails: {
+        to: transactionParams.to,
+        value: "0.0",
+        data,
+        nonce: safeTransaction.data.nonce,
+      },
+      action,
+      settingsDiff,
+    };
+  }
+
+  /**
+   * Creates a transaction of the connected (parent) Safe that approves
+   * a proposal of a child Safe it owns via approveHash
+   */
+  async createNestedApprovalTransactionHash(
+    childSafeAddress: string,
+    childSafeTxHash: string,
+    nonce?: number
+  ): Promise<UniversalOperationResult> {
+    if (!this.currentSafeAddress) {
+      throw new Error("Safe address not defined");
+    }
+
+    const childOwners = await this.getOnChainOwners(childSafeAddress);
+    if (
+      !childOwners.some(
+        (o) => o.toLowerCase() === this.currentSafeAddress!.toLowerCase()
+      )
+    ) {
+      throw new Error(
+        `Safe ${this.currentSafeAddress} is not an owner of ${childSafeAddress}`
+      );
+    }
+
+    console.log("Creating nested approval:", {
+      parentSafe: this.currentSafeAddress,
+      childSafe: childSafeAddress,
+      childSafeTxHash,
+    });
+
+    return await this.createUniversalTransactionHash(
+      {
+        contractAddress: childSafeAddress,
+        functionSignature: "approveHash(bytes32)",
+        functionParams: [childSafeTxHash],
+        value: 0n,
+      },
+      nonce
+    );
+  }
+
+  /**
+   * Creates a rejection (zero-value self-call) that occupies the given nonce
+   */
+  async createRejectionTransactionHash(
+    nonce: number
+  ): Promise<UniversalOperationResult> {
+    if (!this.currentSafeAddress) {
+      throw new Error("Safe address not defined");
+    }
+
+    console.log("Creating rejection transaction for nonce:", nonce);
+
+    const transactionParams: TransactionParams = {
+      to: this.currentSafeAddress,
+      value: 0n,
+      data: "0x",
+      operation: OperationType.Call,
+    };
+
+    const safeTransaction = await this.createSafeTransaction(
+      transactionParams,
+      nonce
+    );
+    const transactionHash = await this.getSafeSdk().getTransactionHash(
+      safeTransaction
+    );
+
+    console.log("Rejection transaction hash created:", transactionHash);
+
+    return {
+      transactionHash,
+      safeTransaction,
+      encodedData: "0x",
+      transactionDetails: {
+        to: transactionParams.to,
+        value: "0.0",
+        data: "0x",
+        nonce: safeTransaction.data.nonce,
       },
     };
   }
 
+  // Owner preceding the given one in the Safe owners linked list
+  private getPrevOwner(owner: string, owners: string[]): string {
+    const index = owners.indexOf(owner);
+    if (index === -1) {
+      throw new Error(`Address ${owner} is not an owner of this Safe`);
+    }
+    return index === 0 ? SENTINEL_OWNERS : owners[index - 1];
+  }
+
+  // Resolves address to the owner entry returned by the Safe contract
+  private findOwner(ownerAddress: string, owners: string[]): string {
+    const owner = owners.find(
+      (o) => o.toLowerCase() === ownerAddress.toLowerCase()
+    );
+    if (!owner) {
+      throw new Error(`Address ${ownerAddress} is not an owner of this Safe`);
+    }
+    return owner;
+  }
+
+  private validateNewOwner(ownerAddress: string, owners: string[]): string {
+    if (!ethers.isAddress(ownerAddress)) {
+      throw new Error(`Invalid owner address format: ${ownerAddress}`);
+    }
+
+    const owner = ethers.getAddress(ownerAddress);
+    if (owner === ethers.ZeroAddress || owner === SENTINEL_OWNERS) {
+      throw new Error(`Address ${owner} cannot be a Safe owner`);
+    }
+    if (owner.toLowerCase() === this.currentSafeAddress?.toLowerCase()) {
+      throw new Error("Safe cannot be an owner of itself");
+    }
+    if (owners.some((o) => o.toLowerCase() === owner.toLowerCase())) {
+      throw new Error(`Address ${owner} is already an owner`);
+    }
+    return owner;
+  }
+
+  /**
+   * Alternative to EIP-712 signing: the owner approves the hash on-chain
+   * by sending approveHash(safeTxHash) to the connected Safe
+   */
+  async approveTransactionHashOnChain(safeTxHash: string): Promise<string> {
+    const safeSdk = this.getSafeSdk();
+    const ownerAddress = await this.network.signer.getAddress();
+
+    const isOwner = await safeSdk.isOwner(ownerAddress);
+    if (!isOwner) {
+      throw new Error(`Address ${ownerAddress} is not an owner of this Safe`);
+    }
+
+    const approvedOwners = await this.getOnChainApprovals(
+      this.currentSafeAddress!,
+      safeTxHash
+    );
+    if (
+      approvedOwners.some((o) => o.toLowerCase() === ownerAddress.toLowerCase())
+    ) {
+      throw new Error("Transaction hash is already approved by this owner");
+    }
+
+    console.log("Approving hash on-chain:", safeTxHash);
+
+    const txResult = await safeSdk.approveTransactionHash(safeTxHash);
+    await this.network.provider.waitForTransaction(txResult.hash);
+
+    console.log("Hash approved on-chain:", txResult.hash);
+    return txResult.hash;
+  }
+
+  // Owners of any Safe that approved the hash via approveHash()
+  async getOnChainApprovals(
+    safeAddress: string,
+    safeTxHash: string
+  ): Promise<string[]> {
+    const owners = await this.getOnChainOwners(safeAddress);
+    const verifier = new SignatureVerifier(this.network.provider);
+    return await verifier.getOnChainApprovals(safeAddress, safeTxHash, owners);
+  }
+
+  // Signature object matching how Safe checkNSignatures reads the confirmation
+  private buildConfirmationSignature(
+    owner: string,
+    signature: string,
+    kind: SignatureKind | null
+  ): EthSafeSignature {
+    switch (kind) {
+      case "contract":
+        // Only the EIP-1271 payload is kept, offset is recomputed on encoding
+        return new EthSafeSignature(
+          owner,
+          extractContractSignatureData(signature),
+          true
+        );
+      case "approved_hash":
+        return new EthSafeSignature(owner, buildApprovedHashSignature(owner));
+      default:
+        return new EthSafeSignature(owner, signature);
+    }
+  }
+
   async createSafeTransaction(
     transactionParams: TransactionParams,
-    nonce?: number
+    nonce?: number,
+    gasOptions?: SafeGasOptions
   ): Promise<SafeTransaction> {
-    const safeSdk = this.getSafeSdk();
     const valueInWei = transactionParams.value.toString();
 
     console.log("Transaction params:", transactionParams);
@@ -443,13 +1395,16 @@ export class SafeOnChain {
       data: transactionParams.data,
     };
 
-    const safeTransaction = await safeSdk.createTransaction({
-      transactions: [metaTransactionData],
-      options: {
-        safeTxGas: "0",
-        nonce: nonce,
-      },
-    });
+    // MultiSend proposals are stored in STS as DELEGATECALL
+    if (transactionParams.operation !== undefined) {
+      metaTransactionData.operation = transactionParams.operation;
+    }
+
+    const safeTransaction = await this.buildSafeTransaction(
+      [metaTransactionData],
+      nonce,
+      gasOptions
+    );
 
     console.log(
       "Safe transaction created with nonce:",
@@ -458,22 +1413,64 @@ export class SafeOnChain {
     return safeTransaction;
   }
 
-  async executeTransactionByHash(
-    safeTxHash: string,
-    safeOffChain?: SafeOffChain
-  ): Promise<string> {
-    if (!this.isConnected()) {
-      throw new Error("Safe not connected");
-    }
+  /**
+   * Creates the Safe transaction, estimating safeTxGas and baseGas when
+   * requested or when a refund is configured without explicit values
+   */
+  private async buildSafeTransaction(
+    transactions: MetaTransactionData[],
+    nonce?: number,
+    gasOptions?: SafeGasOptions,
+    onlyCalls?: boolean
+  ): Promise<SafeTransaction> {
+    const safeSdk = this.getSafeSdk();
+    const isRefund = BigInt(gasOptions?.gasPrice || "0") > 0n;
+
+    const options = {
+      safeTxGas: gasOptions?.safeTxGas || "0",
+      baseGas: gasOptions?.baseGas || "0",
+      gasPrice: gasOptions?.gasPrice || "0",
+      gasToken: gasOptions?.gasToken || ethers.ZeroAddress,
+      refundReceiver: gasOptions?.refundReceiver || ethers.ZeroAddress,
+      nonce,
+    };
 
-    if (!safeOffChain) {
-      throw new Error(
-        "SafeOffChain is required to execute transaction by hash for data recovery"
-      );
+    let safeTransaction = await safeSdk.createTransaction({
+      transactions,
+      onlyCalls,
+      options,
+    });
+
+    const needsSafeTxGas =
+      !gasOptions?.safeTxGas && (gasOptions?.estimateSafeTxGas || isRefund);
+    const needsBaseGas = !gasOptions?.baseGas && isRefund;
+
+    if (needsSafeTxGas || needsBaseGas) {
+      if (needsSafeTxGas) {
+        options.safeTxGas = await estimateSafeTxGas(safeSdk, safeTransaction);
+        console.log("Estimated safeTxGas:", options.safeTxGas);
+      }
+      if (needsBaseGas) {
+        options.baseGas = await estimateTxBaseGas(safeSdk, safeTransaction);
+        console.log("Estimated baseGas:", options.baseGas);
+      }
+
+      safeTransaction = await safeSdk.createTransaction({
+        transactions,
+        onlyCalls,
+        options,
+      });
     }
 
-    const txFromSTS = await safeOffChain.getTransaction(safeTxHash);
+    return safeTransaction;
+  }
 
+  // Rebuild the SafeTransaction of an STS proposal with every hashed field,
+  // so signing or executing it cannot target a different safeTxHash
+  async restoreSafeTransaction(
+    txFromSTS: UserProposal,
+    safeTxHash: string
+  ): Promise<SafeTransaction> {
     // Convert value from STS to BigInt
     const valueFromSTS =
       txFromSTS.value && txFromSTS.value !== "0" ? BigInt(txFromSTS.value) : 0n;
@@ -492,6 +1489,7 @@ export class SafeOnChain {
         to: txFromSTS.to,
         value: valueFromSTS,
         data: txFromSTS.data || "0x",
+        operation: txFromSTS.operation,
       },
       nonceFromSTS
     );
@@ -526,38 +1524,112 @@ export class SafeOnChain {
       throw new Error("Failed to restore transaction with correct hash");
     }
 
-    // Restore signatures
-    if (txFromSTS.confirmations?.length) {
-      const sortedConfirmations = [...txFromSTS.confirmations].sort((a, b) =>
-        a.owner.toLowerCase().localeCompare(b.owner.toLowerCase())
+    return safeTransaction;
+  }
+
+  async executeTransactionByHash(
+    safeTxHash: string,
+    safeOffChain?: SafeOffChain
+  ): Promise<string> {
+    if (!this.isConnected()) {
+      throw new Error("Safe not connected");
+    }
+
+    if (!safeOffChain) {
+      throw new Error(
+        "SafeOffChain is required to execute transaction by hash for data recovery"
+      );
+    }
+
+    const txFromSTS = await safeOffChain.getTransaction(safeTxHash);
+    const safeTransaction = await this.restoreSafeTransaction(
+      txFromSTS,
+      safeTxHash
+    );
+
+    // Verify signatures locally instead of failing with GS026 on-chain
+    const confirmations = txFromSTS.confirmations || [];
+    const verification = await this.verifyConfirmations(
+      this.currentSafeAddress!,
+      safeTxHash,
+      confirmations,
+      getSafeTxHashData(txFromSTS)
+    );
+    const invalidConfirmations = verification.confirmations.filter(
+      (c) => !c.isValid
+    );
+    if (invalidConfirmations.length > 0) {
+      console.warn("Skipping invalid confirmations:", invalidConfirmations);
+    }
+
+    // Restore signatures, Safe SDK orders static and dynamic parts by signer
+    const signedOwners = new Set<string>();
+    confirmations.forEach((confirmation, index) => {
+      const result = verification.confirmations[index];
+      const owner = confirmation.owner.toLowerCase();
+      if (!result.isValid || signedOwners.has(owner)) {
+        return;
+      }
+
+      safeTransaction.addSignature(
+        this.buildConfirmationSignature(
+          confirmation.owner,
+          confirmation.signature,
+          result.kind
+        )
       );
+      signedOwners.add(owner);
+    });
 
-      for (const confirmation of sortedConfirmations) {
-        if (confirmation.signature && confirmation.signature !== "0x") {
-          const signature = {
-            signer: confirmation.owner.toLowerCase(),
-            data: confirmation.signature,
-            isContractSignature: false,
-            staticPart: () => confirmation.signature,
-            dynamicPart: () => "",
-          };
-          safeTransaction.addSignature(signature);
-        } else if (confirmation.signatureType !== "EOA") {
-          const approveSignature = {
-            signer: confirmation.owner.toLowerCase(),
-            data: `0x${confirmation.owner
-              .slice(2)
-              .padStart(64, "0")}${"0".repeat(64)}01`,
-            isContractSignature: false,
-            staticPart: () =>
-              `0x${confirmation.owner.slice(2).padStart(64, "0")}${"0".repeat(
-                64
-              )}01`,
-            dynamicPart: () => "",
-          };
-          safeTransaction.addSignature(approveSignature);
-        }
+    // Owners without STS confirmation, e.g. parent Safes, may approve on-chain
+    const verifier = new SignatureVerifier(this.network.provider);
+    const onChainApprovals = await verifier.getOnChainApprovals(
+      this.currentSafeAddress!,
+      safeTxHash,
+      verification.owners.filter((o) => !signedOwners.has(o.toLowerCase()))
+    );
+    onChainApprovals.forEach((owner) => {
+      console.log("Using on-chain approval of owner:", owner);
+      safeTransaction.addSignature(
+        new EthSafeSignature(owner, buildApprovedHashSignature(owner))
+      );
+      signedOwners.add(owner.toLowerCase());
+    });
+
+    if (signedOwners.size < verification.threshold) {
+      const details = invalidConfirmations
+        .map((c) => `${c.owner}: ${c.error}`)
+        .join("; ");
+      throw new Error(
+        `Not enough valid signatures! Required: ${
+          verification.threshold
+        }, valid: ${signedOwners.size}.${details ? ` Invalid: ${details}` : ""}`
+      );
+    }
+
+    // Without safeTxGas and gasPrice a failing inner call reverts with GS013
+    let simulation: SimulationResult | null = null;
+    try {
+      simulation = await this.simulateTransaction(this.currentSafeAddress!, {
+        to: safeTransaction.data.to,
+        value: BigInt(safeTransaction.data.value),
+        data: safeTransaction.data.data,
+        operation: safeTransaction.data.operation,
+      });
+    } catch (error) {
+      console.warn("Simulation unavailable, executing without it:", error);
+    }
+    if (simulation && !simulation.success) {
+      if (
+        Number(safeTransaction.data.safeTxGas) === 0 &&
+        Number(safeTransaction.data.gasPrice) === 0
+      ) {
+        throw new Error(`Transaction would revert: ${simulation.revertReason}`);
       }
+      console.warn(
+        "Inner call will fail, executing to consume nonce:",
+        simulation.revertReason
+      );
     }
 
     const result = await this.executeTransaction(safeTransaction);
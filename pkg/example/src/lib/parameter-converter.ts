@@ -0,0 +1,261 @@
+/**
+ * Conversion of form values into ABI encodable parameters
+ */
+
+import { ethers } from "ethers";
+import { ABIInput, ParameterValue } from "./contract-types";
+
+// Field path to validation error, e.g. "orders[1].amount"
+export type ParameterErrors = { [path: string]: string };
+
+// Field path to token decimals for integers entered in token units
+export type TokenUnits = { [path: string]: number };
+
+const INTEGER_TYPE = /^(u?)int(\d*)$/;
+const FIXED_BYTES_TYPE = /^bytes(\d+)$/;
+const ARRAY_SUFFIX = /^(.*)\[(\d*)\]$/;
+
+export class ParameterConverter {
+  /**
+   * Name of the form field, unnamed inputs fall back to their position
+   */
+  static getFieldName(input: ABIInput, index: number): string {
+    return input.name || `param${index}`;
+  }
+
+  /**
+   * Splits the outermost array dimension: uint256[2][] is a dynamic
+   * array of uint256[2] items
+   */
+  static parseArrayType(
+    type: string
+  ): { itemType: string; length: number | null } | null {
+    const match = type.match(ARRAY_SUFFIX);
+    if (!match) {
+      return null;
+    }
+    return {
+      itemType: match[1],
+      length: match[2] === "" ? null : parseInt(match[2]),
+    };
+  }
+
+  static getArrayItemInput(input: ABIInput): ABIInput {
+    const array = this.parseArrayType(input.type);
+    if (!array) {
+      throw new Error(`${input.type} is not an array type`);
+    }
+    return { ...input, type: array.itemType };
+  }
+
+  static isTuple(input: ABIInput): boolean {
+    return input.type === "tuple";
+  }
+
+  /**
+   * Empty form value with the shape of the input
+   */
+  static getDefaultValue(input: ABIInput): ParameterValue {
+    const array = this.parseArrayType(input.type);
+    if (array) {
+      const item = this.getArrayItemInput(input);
+      return Array.from({ length: array.length ?? 0 }, () =>
+        this.getDefaultValue(item)
+      );
+    }
+
+    if (this.isTuple(input)) {
+      const value: { [key: string]: ParameterValue } = {};
+      (input.components || []).forEach((component, index) => {
+        value[this.getFieldName(component, index)] =
+          this.getDefaultValue(component);
+      });
+      return value;
+    }
+
+    return "";
+  }
+
+  /**
+   * Validates all fields, keys of the result are field paths
+   */
+  static validateParameters(
+    inputs: ABIInput[],
+    values: { [key: string]: ParameterValue },
+    tokenUnits: TokenUnits = {}
+  ): ParameterErrors {
+    const errors: ParameterErrors = {};
+    inputs.forEach((input, index) => {
+      const name = this.getFieldName(input, index);
+      this.convert(input, values[name], name, errors, tokenUnits);
+    });
+    return errors;
+  }
+
+  /**
+   * Converts form values to encoder arguments, throws on the first invalid fields
+   */
+  static convertParameters(
+    inputs: ABIInput[],
+    values: { [key: string]: ParameterValue },
+    tokenUnits: TokenUnits = {}
+  ): any[] {
+    const errors: ParameterErrors = {};
+    const params = inputs.map((input, index) => {
+      const name = this.getFieldName(input, index);
+      return this.convert(input, values[name], name, errors, tokenUnits);
+    });
+
+    const messages = Object.entries(errors).map(
+      ([path, error]) => `${path}: ${error}`
+    );
+    if (messages.length > 0) {
+      throw new Error(`Invalid parameters. ${messages.join("; ")}`);
+    }
+
+    return params;
+  }
+
+  private static convert(
+    input: ABIInput,
+    value: ParameterValue | undefined,
+    path: string,
+    errors: ParameterErrors,
+    tokenUnits: TokenUnits
+  ): any {
+    const array = this.parseArrayType(input.type);
+    if (array) {
+      if (!Array.isArray(value)) {
+        errors[path] = "Expected a list of values";
+        return [];
+      }
+      if (array.length !== null && value.length !== array.length) {
+        errors[
+          path
+        ] = `Expected exactly ${array.length} items, got ${value.length}`;
+      }
+      const item = this.getArrayItemInput(input);
+      return value.map((itemValue, index) =>
+        this.convert(item, itemValue, `${path}[${index}]`, errors, tokenUnits)
+      );
+    }
+
+    if (this.isTuple(input)) {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        errors[path] = "Expected a struct value";
+        return [];
+      }
+      const tuple = value as { [key: string]: ParameterValue };
+      return (input.components || []).map((component, index) => {
+        const name = this.getFieldName(component, index);
+        return this.convert(
+          component,
+          tuple[name],
+          `${path}.${name}`,
+          errors,
+          tokenUnits
+        );
+      });
+    }
+
+    if (typeof value !== "string") {
+      errors[path] = `Expected a ${input.type} value`;
+      return value;
+    }
+
+    try {
+      return this.convertValue(input.type, value, tokenUnits[path]);
+    } catch (error: any) {
+      errors[path] = error.message;
+      return value;
+    }
+  }
+
+  // Value types: bool, address, string, (u)intN, bytes, bytesN.
+  // Integers with decimals set are entered in token units and scaled
+  private static convertValue(
+    type: string,
+    rawValue: string,
+    decimals?: number
+  ): any {
+    const value = type === "string" ? rawValue : rawValue.trim();
+
+    if (type === "string") {
+      return value;
+    }
+
+    if (value === "") {
+      throw new Error("Value is required");
+    }
+
+    if (type === "bool") {
+      const normalized = value.toLowerCase();
+      if (normalized === "true" || normalized === "1") return true;
+      if (normalized === "false" || normalized === "0") return false;
+      throw new Error("Expected true or false");
+    }
+
+    if (type === "address") {
+      if (!ethers.isHexString(value, 20)) {
+        throw new Error("Expected 0x-prefixed 20 byte address");
+      }
+      try {
+        return ethers.getAddress(value);
+      } catch (error) {
+        throw new Error("Invalid address checksum");
+      }
+    }
+
+    const integer = type.match(INTEGER_TYPE);
+    if (integer) {
+      const signed = integer[1] === "";
+      const bits = integer[2] ? parseInt(integer[2]) : 256;
+
+      let parsed: bigint;
+      if (decimals !== undefined) {
+        try {
+          parsed = ethers.parseUnits(value, decimals);
+        } catch (error) {
+          throw new Error(
+            `Expected an amount with at most ${decimals} decimal places`
+          );
+        }
+      } else {
+        try {
+          parsed = BigInt(value);
+        } catch (error) {
+          throw new Error("Expected an integer (decimal or 0x hex)");
+        }
+      }
+
+      const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+      const max = signed
+        ? (1n << BigInt(bits - 1)) - 1n
+        : (1n << BigInt(bits)) - 1n;
+      if (parsed < min || parsed > max) {
+        throw new Error(`Out of ${type} range [${min}, ${max}]`);
+      }
+      return parsed;
+    }
+
+    if (type === "bytes") {
+      if (!ethers.isHexString(value) || value.length % 2 !== 0) {
+        throw new Error("Expected 0x-prefixed hex with whole bytes");
+      }
+      return value;
+    }
+
+    const fixedBytes = type.match(FIXED_BYTES_TYPE);
+    if (fixedBytes) {
+      const size = parseInt(fixedBytes[1]);
+      if (!ethers.isHexString(value, size)) {
+        throw new Error(`Expected 0x-prefixed hex of exactly ${size} bytes`);
+      }
+      return value;
+    }
+
+    throw new Error(`Unsupported type ${type}`);
+  }
+}
+
+export default ParameterConverter;
@@ -0,0 +1,97 @@
+/**
+ * Bulk payouts from CSV rows of recipient, token and amount, split into
+ * MultiSend batches of limited size
+ */
+
+import { TransferRequest } from "./transfers";
+
+export interface PayoutCsvRow {
+  line: number; // 1-based line in the file, for error messages
+  recipient: string;
+  token: string; // Token address, "native" or the native coin symbol
+  amount: string; // In token units, e.g. 12.5
+}
+
+export interface PayoutRowError {
+  line: number;
+  message: string;
+}
+
+export const DEFAULT_MAX_CALLS_PER_BATCH = 50;
+
+const COLUMNS = ["recipient", "token", "amount"] as const;
+
+// Unquotes simple quoted cells, separators inside quotes are not supported
+const splitCsvLine = (line: string): string[] =>
+  line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+
+/**
+ * Parses payout CSV. The header row is optional, without it columns are
+ * recipient, token, amount. Empty lines and # comments are skipped
+ */
+export function parsePayoutCsv(text: string): {
+  rows: PayoutCsvRow[];
+  errors: PayoutRowError[];
+} {
+  const rows: PayoutCsvRow[] = [];
+  const errors: PayoutRowError[] = [];
+  let columnIndexes: number[] = [0, 1, 2];
+  let headerChecked = false;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    if (rawLine.trim() === "" || rawLine.trim().startsWith("#")) return;
+
+    const cells = splitCsvLine(rawLine);
+
+    if (!headerChecked) {
+      headerChecked = true;
+      const names = cells.map((cell) => cell.toLowerCase());
+      if (names.includes("recipient")) {
+        columnIndexes = COLUMNS.map((column) => names.indexOf(column));
+        const missing = COLUMNS.filter((_, i) => columnIndexes[i] === -1);
+        if (missing.length > 0) {
+          errors.push({
+            line,
+            message: `Header is missing columns: ${missing.join(", ")}`,
+          });
+        }
+        return;
+      }
+    }
+
+    const [recipient, token, amount] = columnIndexes.map(
+      (columnIndex) => cells[columnIndex] ?? ""
+    );
+    if (!recipient || !token || !amount) {
+      errors.push({ line, message: "Expected recipient, token, amount" });
+      return;
+    }
+
+    rows.push({ line, recipient, token, amount });
+  });
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ line: 0, message: "File contains no payout rows" });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Splits transfers into consecutive batches of at most maxCallsPerBatch calls
+ */
+export function splitIntoBatches(
+  transfers: TransferRequest[],
+  maxCallsPerBatch: number
+): TransferRequest[][] {
+  if (!Number.isInteger(maxCallsPerBatch) || maxCallsPerBatch < 1) {
+    throw new Error("Max calls per batch must be a positive integer");
+  }
+
+  const batches: TransferRequest[][] = [];
+  for (let i = 0; i < transfers.length; i += maxCallsPerBatch) {
+    batches.push(transfers.slice(i, i + maxCallsPerBatch));
+  }
+  return batches;
+}
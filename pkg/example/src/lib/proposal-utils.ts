@@ -0,0 +1,204 @@
+import { UserProposal } from "./offchain";
+
+// Owners that approved each safeTxHash on-chain via approveHash()
+export interface OnChainApprovals {
+  [safeTxHash: string]: string[];
+}
+
+// Proposals of one Safe that compete for the same nonce
+export interface ProposalNonceGroup {
+  safe: string;
+  nonce: number;
+  proposals: UserProposal[];
+}
+
+// Canonical rejection: zero-value self-call without data
+export function isRejectionProposal(proposal: UserProposal): boolean {
+  return (
+    proposal.to.toLowerCase() === proposal.safe.toLowerCase() &&
+    (!proposal.value || proposal.value === "0") &&
+    (!proposal.data || proposal.data === "0x") &&
+    Number(proposal.operation) === 0
+  );
+}
+
+// Group proposals by Safe and nonce, keeping order of first appearance
+export function groupProposalsByNonce(
+  proposals: UserProposal[]
+): ProposalNonceGroup[] {
+  const groups = new Map<string, ProposalNonceGroup>();
+
+  proposals.forEach((proposal) => {
+    const nonce = Number(proposal.nonce);
+    const key = `${proposal.safe.toLowerCase()}:${nonce}`;
+
+    const group = groups.get(key);
+    if (group) {
+      group.proposals.push(proposal);
+    } else {
+      groups.set(key, { safe: proposal.safe, nonce, proposals: [proposal] });
+    }
+  });
+
+  return Array.from(groups.values());
+}
+
+// Time when the proposal collected the required number of confirmations.
+// On-chain approvals have no timestamp and count as given after all STS ones
+export function getThresholdReachedAt(
+  proposal: UserProposal,
+  onChainApprovals: string[] = []
+): Date | null {
+  const confirmationDates = new Map<string, number>();
+  (proposal.confirmations || []).forEach((c) =>
+    confirmationDates.set(
+      c.owner.toLowerCase(),
+      new Date(c.submissionDate).getTime()
+    )
+  );
+  const dates = getConfirmedOwners(proposal, onChainApprovals)
+    .map((owner) => confirmationDates.get(owner) ?? Date.now())
+    .sort((a, b) => a - b);
+
+  if (
+    proposal.confirmationsRequired < 1 ||
+    dates.length < proposal.confirmationsRequired
+  ) {
+    return null;
+  }
+
+  return new Date(dates[proposal.confirmationsRequired - 1]);
+}
+
+// Proposal of the group that was executed or reached threshold first
+export function getLeadingProposal(
+  group: ProposalNonceGroup,
+  onChainApprovals: OnChainApprovals = {}
+): UserProposal | null {
+  const executed = group.proposals.find((p) => p.isExecuted);
+  if (executed) {
+    return executed;
+  }
+
+  let leading: UserProposal | null = null;
+  let leadingTime = Infinity;
+
+  group.proposals.forEach((proposal) => {
+    const reachedAt = getThresholdReachedAt(
+      proposal,
+      onChainApprovals[proposal.safeTxHash]
+    );
+    if (reachedAt && reachedAt.getTime() < leadingTime) {
+      leading = proposal;
+      leadingTime = reachedAt.getTime();
+    }
+  });
+
+  return leading;
+}
+
+// One nonce slot of the Safe queue
+export interface QueueNonceEntry {
+  nonce: number;
+  proposals: UserProposal[];
+  isNext: boolean; // Nonce equals the on-chain nonce
+  isGap: boolean; // No proposal occupies this nonce
+  hasConflict: boolean; // Several proposals compete for this nonce
+  executableProposal: UserProposal | null; // Set only for the next nonce
+}
+
+export interface SafeNonceQueue {
+  safe: string;
+  onChainNonce: number;
+  entries: QueueNonceEntry[];
+  gaps: number[];
+  hiddenCount: number; // Proposals whose nonce is already consumed on-chain
+}
+
+function hasEnoughConfirmations(
+  proposal: UserProposal,
+  onChainApprovals: OnChainApprovals
+): boolean {
+  return (
+    getConfirmedOwners(proposal, onChainApprovals[proposal.safeTxHash])
+      .length >= proposal.confirmationsRequired
+  );
+}
+
+// Build the pending queue of one Safe starting from its on-chain nonce
+export function buildNonceQueue(
+  safe: string,
+  proposals: UserProposal[],
+  onChainNonce: number,
+  onChainApprovals: OnChainApprovals = {}
+): SafeNonceQueue {
+  const pending = proposals.filter(
+    (p) =>
+      p.safe.toLowerCase() === safe.toLowerCase() &&
+      !p.isExecuted &&
+      Number(p.nonce) >= onChainNonce
+  );
+  const hiddenCount =
+    proposals.filter((p) => p.safe.toLowerCase() === safe.toLowerCase())
+      .length - pending.length;
+
+  const groups = new Map<number, ProposalNonceGroup>();
+  groupProposalsByNonce(pending).forEach((group) =>
+    groups.set(group.nonce, group)
+  );
+
+  const highestNonce = Math.max(onChainNonce - 1, ...Array.from(groups.keys()));
+  const entries: QueueNonceEntry[] = [];
+  const gaps: number[] = [];
+
+  for (let nonce = onChainNonce; nonce <= highestNonce; nonce++) {
+    const group = groups.get(nonce);
+    const entryProposals = group
+      ? [...group.proposals].sort(
+          (a, b) =>
+            new Date(a.submissionDate).getTime() -
+            new Date(b.submissionDate).getTime()
+        )
+      : [];
+    const isNext = nonce === onChainNonce;
+
+    let executableProposal: UserProposal | null = null;
+    if (isNext && group) {
+      const leading = getLeadingProposal(group, onChainApprovals);
+      executableProposal =
+        leading && hasEnoughConfirmations(leading, onChainApprovals)
+          ? leading
+          : entryProposals.find((p) =>
+              hasEnoughConfirmations(p, onChainApprovals)
+            ) || null;
+    }
+
+    if (!group) {
+      gaps.push(nonce);
+    }
+
+    entries.push({
+      nonce,
+      proposals: entryProposals,
+      isNext,
+      isGap: !group,
+      hasConflict: entryProposals.length > 1,
+      executableProposal,
+    });
+  }
+
+  return { safe, onChainNonce, entries, gaps, hiddenCount };
+}
+
+// Owners that confirmed via STS signature or on-chain approveHash
+export function getConfirmedOwners(
+  proposal: UserProposal,
+  onChainApprovals: string[] = []
+): string[] {
+  const owners = new Set<string>();
+  (proposal.confirmations || []).forEach((c) =>
+    owners.add(c.owner.toLowerCase())
+  );
+  onChainApprovals.forEach((owner) => owners.add(owner.toLowerCase()));
+  return Array.from(owners);
+}
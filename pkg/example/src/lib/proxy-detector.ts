@@ -0,0 +1,121 @@
+/**
+ * Detection of upgradeable proxies by their standard storage slots
+ */
+
+import { ethers } from "ethers";
+import { ProxyInfo, ProxyKind } from "./contract-types";
+
+export const PROXY_KIND_LABELS: Record<ProxyKind, string> = {
+  eip1967: "EIP-1967",
+  "eip1967-beacon": "EIP-1967 beacon",
+  "oz-legacy": "OpenZeppelin legacy",
+  eip1822: "EIP-1822 UUPS",
+};
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const EIP1967_IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+// bytes32(uint256(keccak256("eip1967.proxy.beacon")) - 1)
+const EIP1967_BEACON_SLOT =
+  "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50";
+// bytes32(uint256(keccak256("eip1967.proxy.admin")) - 1)
+const EIP1967_ADMIN_SLOT =
+  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+// keccak256("org.zeppelinos.proxy.implementation")
+const OZ_LEGACY_IMPLEMENTATION_SLOT =
+  "0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3";
+// keccak256("PROXIABLE")
+const EIP1822_PROXIABLE_SLOT =
+  "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7";
+
+const BEACON_ABI = ["function implementation() view returns (address)"];
+
+export class ProxyDetector {
+  private provider: ethers.Provider;
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Resolves the implementation behind a proxy, null for regular contracts
+   */
+  async detect(address: string): Promise<ProxyInfo | null> {
+    const [implementation, beacon, legacy, proxiable] = await Promise.all([
+      this.readAddressSlot(address, EIP1967_IMPLEMENTATION_SLOT),
+      this.readAddressSlot(address, EIP1967_BEACON_SLOT),
+      this.readAddressSlot(address, OZ_LEGACY_IMPLEMENTATION_SLOT),
+      this.readAddressSlot(address, EIP1822_PROXIABLE_SLOT),
+    ]);
+
+    let proxy: ProxyInfo | null = null;
+
+    if (implementation) {
+      proxy = { kind: "eip1967", implementation };
+    } else if (beacon) {
+      const beaconImplementation = await this.getBeaconImplementation(beacon);
+      if (beaconImplementation) {
+        proxy = {
+          kind: "eip1967-beacon",
+          implementation: beaconImplementation,
+          beacon,
+        };
+      }
+    } else if (legacy) {
+      proxy = { kind: "oz-legacy", implementation: legacy };
+    } else if (proxiable) {
+      proxy = { kind: "eip1822", implementation: proxiable };
+    }
+
+    if (!proxy || !(await this.hasCode(proxy.implementation))) {
+      return null;
+    }
+
+    // Transparent proxies keep their admin in a separate slot
+    const admin = await this.readAddressSlot(address, EIP1967_ADMIN_SLOT);
+    if (admin) {
+      proxy.admin = admin;
+    }
+
+    console.log(`Proxy detected at ${address}:`, proxy);
+    return proxy;
+  }
+
+  private async readAddressSlot(
+    address: string,
+    slot: string
+  ): Promise<string | null> {
+    try {
+      const value = await this.provider.getStorage(address, slot);
+      const slotAddress = ethers.getAddress(ethers.dataSlice(value, 12));
+      return slotAddress === ethers.ZeroAddress ? null : slotAddress;
+    } catch (error) {
+      console.warn(`Failed to read storage slot ${slot}:`, error);
+      return null;
+    }
+  }
+
+  private async getBeaconImplementation(
+    beacon: string
+  ): Promise<string | null> {
+    try {
+      const beaconContract = new ethers.Contract(
+        beacon,
+        BEACON_ABI,
+        this.provider
+      );
+      const implementation: string = await beaconContract.implementation();
+      return implementation === ethers.ZeroAddress ? null : implementation;
+    } catch (error) {
+      console.warn("Beacon does not expose implementation():", beacon);
+      return null;
+    }
+  }
+
+  private async hasCode(address: string): Promise<boolean> {
+    const code = await this.provider.getCode(address);
+    return code !== "0x";
+  }
+}
+
+export default ProxyDetector;
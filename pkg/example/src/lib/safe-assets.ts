@@ -0,0 +1,309 @@
+/**
+ * Native and ERC20 balances of a Safe, from the STS balances endpoint or
+ * read through the provider for tokens found in Transfer logs and the
+ * configured token list
+ */
+
+import axios from "axios";
+import { ethers } from "ethers";
+import { NetworkConfig } from "./constants";
+import { ContractABI } from "./contract-types";
+import { ABIParser } from "./abi-parser";
+import { contractRegistry } from "./contract-registry";
+import { TokenMetadataReader } from "./token-metadata";
+
+export interface SafeAsset {
+  tokenAddress: string | null; // Null for the native currency
+  symbol: string;
+  name?: string;
+  decimals: number;
+  balance: bigint;
+  formattedBalance: string;
+}
+
+export interface SafeAssetsResult {
+  assets: SafeAsset[];
+  source: "sts" | "provider";
+}
+
+// Item of GET /api/v1/safes/{address}/balances/, tokenAddress is null for
+// native, token is also null for tokens STS has not indexed
+interface STSBalance {
+  tokenAddress: string | null;
+  token: { name: string; symbol: string; decimals: number } | null;
+  balance: string;
+}
+
+export const TRANSFER_SIGNATURE = "transfer(address,uint256)";
+
+const ERC20_ABI = JSON.parse(
+  new ethers.Interface([
+    "function transfer(address to, uint256 value) returns (bool)",
+    "function approve(address spender, uint256 value) returns (bool)",
+    "function transferFrom(address from, address to, uint256 value) returns (bool)",
+    "function balanceOf(address account) view returns (uint256)",
+    "function allowance(address owner, address spender) view returns (uint256)",
+    "function decimals() view returns (uint8)",
+    "function symbol() view returns (string)",
+    "function name() view returns (string)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  ]).formatJson()
+);
+
+export const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+// Recent blocks scanned for incoming transfers, in chunks most RPCs accept
+const LOG_SCAN_BLOCKS = 100_000;
+const LOG_SCAN_CHUNK = 10_000;
+
+/**
+ * Logs matching topics in recent blocks, oldest chunk first
+ */
+export async function getRecentLogs(
+  provider: ethers.Provider,
+  topics: (string | null)[]
+): Promise<ethers.Log[]> {
+  const latest = await provider.getBlockNumber();
+  const firstBlock = Math.max(0, latest - LOG_SCAN_BLOCKS + 1);
+  const chunks: ethers.Log[][] = [];
+
+  for (let to = latest; to >= firstBlock; to -= LOG_SCAN_CHUNK) {
+    const from = Math.max(firstBlock, to - LOG_SCAN_CHUNK + 1);
+    chunks.unshift(
+      await provider.getLogs({ fromBlock: from, toBlock: to, topics })
+    );
+  }
+
+  return chunks.flat();
+}
+
+export class SafeAssetsReader {
+  private provider: ethers.Provider;
+  private networkConfig: NetworkConfig;
+  private tokenMetadataReader: TokenMetadataReader;
+
+  constructor(
+    provider: ethers.Provider,
+    networkConfig: NetworkConfig,
+    tokenMetadataReader: TokenMetadataReader
+  ) {
+    this.provider = provider;
+    this.networkConfig = networkConfig;
+    this.tokenMetadataReader = tokenMetadataReader;
+  }
+
+  /**
+   * STS balances when the service is configured and answers,
+   * otherwise balances read through the provider
+   */
+  async getAssets(safeAddress: string): Promise<SafeAssetsResult> {
+    if (this.networkConfig.stsUrl) {
+      try {
+        return { assets: await this.loadFromSTS(safeAddress), source: "sts" };
+      } catch (error: any) {
+        console.warn("STS balances unavailable:", error.message);
+      }
+    }
+
+    return {
+      assets: await this.loadFromProvider(safeAddress),
+      source: "provider",
+    };
+  }
+
+  /**
+   * Current balance of the native coin (null) or an ERC20 token
+   */
+  async getBalance(
+    tokenAddress: string | null,
+    safeAddress: string
+  ): Promise<bigint> {
+    if (!tokenAddress) {
+      return this.provider.getBalance(safeAddress);
+    }
+    const token = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+    return token.balanceOf(safeAddress);
+  }
+
+  private async loadFromSTS(safeAddress: string): Promise<SafeAsset[]> {
+    const url = `${this.networkConfig.stsUrl}/api/v1/safes/${ethers.getAddress(
+      safeAddress
+    )}/balances/?trusted=false&exclude_spam=true`;
+    console.log("Loading Safe balances from STS:", url);
+
+    const response = await axios.get<STSBalance[]>(url, { timeout: 10000 });
+
+    const assets = await Promise.all(
+      response.data.map((item) => this.toSTSAsset(item))
+    );
+
+    return assets
+      .filter((asset): asset is SafeAsset => asset !== null)
+      .sort((a, b) => this.compareAssets(a, b));
+  }
+
+  /**
+   * Native only without token address. Tokens STS has no metadata for are
+   * read through the provider and skipped when they are not ERC20
+   */
+  private async toSTSAsset(item: STSBalance): Promise<SafeAsset | null> {
+    const balance = BigInt(item.balance);
+    if (!item.tokenAddress) {
+      return this.toNativeAsset(balance);
+    }
+
+    const tokenAddress = ethers.getAddress(item.tokenAddress);
+    if (item.token) {
+      return this.toAsset(
+        tokenAddress,
+        item.token.symbol,
+        item.token.decimals,
+        balance,
+        item.token.name
+      );
+    }
+
+    const metadata = await this.tokenMetadataReader.read(tokenAddress);
+    if (!metadata) {
+      console.warn(`Skipping STS balance of unknown token ${tokenAddress}`);
+      return null;
+    }
+    return this.toAsset(
+      tokenAddress,
+      metadata.symbol,
+      metadata.decimals,
+      balance
+    );
+  }
+
+  private async loadFromProvider(safeAddress: string): Promise<SafeAsset[]> {
+    const [nativeBalance, discovered] = await Promise.all([
+      this.provider.getBalance(safeAddress),
+      this.findReceivedTokens(safeAddress),
+    ]);
+
+    const candidates = new Map<string, string>();
+    [...this.networkConfig.tokens, ...discovered].forEach((address) => {
+      if (ethers.isAddress(address)) {
+        candidates.set(address.toLowerCase(), ethers.getAddress(address));
+      }
+    });
+
+    const tokens = await Promise.all(
+      Array.from(candidates.values()).map((address) =>
+        this.readTokenBalance(address, safeAddress)
+      )
+    );
+
+    return [
+      this.toNativeAsset(nativeBalance),
+      ...tokens.filter(
+        (asset): asset is SafeAsset => asset !== null && asset.balance > 0n
+      ),
+    ].sort((a, b) => this.compareAssets(a, b));
+  }
+
+  /**
+   * Emitters of ERC20 Transfer logs to the Safe in recent blocks.
+   * ERC721 transfers have the token id as a third indexed topic and are skipped
+   */
+  private async findReceivedTokens(safeAddress: string): Promise<string[]> {
+    const tokens = new Set<string>();
+
+    try {
+      const logs = await getRecentLogs(this.provider, [
+        TRANSFER_TOPIC,
+        null,
+        ethers.zeroPadValue(safeAddress, 32),
+      ]);
+      logs
+        .filter((log) => log.topics.length === 3)
+        .forEach((log) => tokens.add(log.address));
+    } catch (error: any) {
+      console.warn("Transfer log scan failed:", error.message);
+    }
+
+    console.log(`Tokens found in Transfer logs: ${tokens.size}`);
+    return Array.from(tokens);
+  }
+
+  private async readTokenBalance(
+    address: string,
+    safeAddress: string
+  ): Promise<SafeAsset | null> {
+    const metadata = await this.tokenMetadataReader.read(address);
+    if (!metadata) return null;
+
+    try {
+      const balance = await this.getBalance(address, safeAddress);
+      return this.toAsset(address, metadata.symbol, metadata.decimals, balance);
+    } catch (error) {
+      console.warn(`Failed to read ${metadata.symbol} balance of ${address}`);
+      return null;
+    }
+  }
+
+  private toNativeAsset(balance: bigint): SafeAsset {
+    return {
+      tokenAddress: null,
+      symbol: this.networkConfig.nativeSymbol,
+      decimals: 18,
+      balance,
+      formattedBalance: ethers.formatEther(balance),
+    };
+  }
+
+  private toAsset(
+    tokenAddress: string,
+    symbol: string,
+    decimals: number,
+    balance: bigint,
+    name?: string
+  ): SafeAsset {
+    return {
+      tokenAddress,
+      symbol,
+      name,
+      decimals,
+      balance,
+      formattedBalance: ethers.formatUnits(balance, decimals),
+    };
+  }
+
+  // Native currency first, tokens by symbol
+  private compareAssets(a: SafeAsset, b: SafeAsset): number {
+    if (!a.tokenAddress) return -1;
+    if (!b.tokenAddress) return 1;
+    return a.symbol.localeCompare(b.symbol);
+  }
+}
+
+/**
+ * Registry contract of the token for a transfer proposal. Tokens without
+ * a known ABI get the standard ERC20 ABI
+ */
+export function getTokenContract(asset: SafeAsset): ContractABI {
+  if (!asset.tokenAddress) {
+    throw new Error("Native currency has no token contract");
+  }
+
+  const known = contractRegistry.getContract(asset.tokenAddress);
+  if (
+    known &&
+    known.parsedFunctions.some((func) => func.signature === TRANSFER_SIGNATURE)
+  ) {
+    return known;
+  }
+
+  const contract: ContractABI = {
+    name: asset.name || asset.symbol,
+    address: asset.tokenAddress,
+    abi: ERC20_ABI,
+    parsedFunctions: ABIParser.parseFunctions(ERC20_ABI),
+  };
+  contractRegistry.addContract(contract);
+  return contract;
+}
+
+export default SafeAssetsReader;
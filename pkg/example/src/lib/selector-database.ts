@@ -0,0 +1,204 @@
+/**
+ * Offline database of 4-byte function selectors and their signatures.
+ * Bundled entries ship with the app, imported entries persist in localStorage
+ */
+
+import { ethers } from "ethers";
+import bundledSelectors from "../abi/selectors.json";
+
+export type SelectorEntries = { [selector: string]: string[] };
+
+const STORAGE_KEY = "safe-selector-database";
+
+export class SelectorDatabase {
+  private static instance: SelectorDatabase;
+  private bundled: SelectorEntries = bundledSelectors;
+  private custom: SelectorEntries = {};
+  private fromAbis: SelectorEntries = {}; // Learned from loaded contracts, not persisted
+  private customLoaded = false;
+
+  private constructor() {}
+
+  static getInstance(): SelectorDatabase {
+    if (!SelectorDatabase.instance) {
+      SelectorDatabase.instance = new SelectorDatabase();
+    }
+    return SelectorDatabase.instance;
+  }
+
+  /**
+   * All known signatures for the selector, several on collisions
+   */
+  lookup(selector: string): string[] {
+    this.loadCustom();
+    const key = selector.toLowerCase();
+
+    const signatures = [
+      ...(this.fromAbis[key] || []),
+      ...(this.custom[key] || []),
+      ...(this.bundled[key] || []),
+    ];
+    return Array.from(new Set(signatures));
+  }
+
+  /**
+   * Adds signatures like "transfer(address,uint256)", returns number of new entries
+   */
+  addSignatures(signatures: string[]): number {
+    this.loadCustom();
+
+    let added = 0;
+    signatures.forEach((signature) => {
+      const entry = this.parseSignature(signature);
+      if (!entry) {
+        console.warn("Skipping invalid signature:", signature);
+        return;
+      }
+      if (this.addEntry(this.custom, entry.selector, entry.signature)) {
+        added++;
+      }
+    });
+
+    if (added > 0) {
+      this.saveCustom();
+    }
+    console.log(`Selector database: added ${added} signatures`);
+    return added;
+  }
+
+  /**
+   * Imports a selector → signatures JSON object, a JSON list of signatures
+   * or plain text with one signature per line
+   */
+  importEntries(input: string): number {
+    const text = input.trim();
+    if (!text) {
+      return 0;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      return this.addSignatures(text.split(/\r?\n/).map((line) => line.trim()));
+    }
+
+    if (Array.isArray(parsed)) {
+      return this.addSignatures(parsed.map(String));
+    }
+
+    if (parsed && typeof parsed === "object") {
+      const signatures: string[] = [];
+      Object.entries(parsed as Record<string, unknown>).forEach(
+        ([selector, value]) => {
+          const list = Array.isArray(value) ? value : [value];
+          list.forEach((signature) => {
+            // Entries must hash to their selector, never trust the key
+            const entry = this.parseSignature(String(signature));
+            if (entry && entry.selector === selector.toLowerCase()) {
+              signatures.push(entry.signature);
+            } else {
+              console.warn("Selector does not match signature:", selector);
+            }
+          });
+        }
+      );
+      return this.addSignatures(signatures);
+    }
+
+    throw new Error("Unsupported selector database format");
+  }
+
+  /**
+   * Makes functions of a contract ABI available for decoding
+   */
+  addFromAbi(abi: any[]): void {
+    try {
+      new ethers.Interface(abi).forEachFunction((fragment) => {
+        this.addEntry(
+          this.fromAbis,
+          fragment.selector,
+          fragment.format("sighash")
+        );
+      });
+    } catch (error) {
+      console.warn("Failed to read selectors from ABI:", error);
+    }
+  }
+
+  exportCustom(): SelectorEntries {
+    this.loadCustom();
+    return { ...this.custom };
+  }
+
+  clearCustom(): void {
+    this.custom = {};
+    this.saveCustom();
+  }
+
+  getStats(): { bundled: number; custom: number; fromAbis: number } {
+    this.loadCustom();
+    return {
+      bundled: Object.keys(this.bundled).length,
+      custom: Object.keys(this.custom).length,
+      fromAbis: Object.keys(this.fromAbis).length,
+    };
+  }
+
+  private parseSignature(
+    signature: string
+  ): { selector: string; signature: string } | null {
+    if (!signature) {
+      return null;
+    }
+    try {
+      const fragment = ethers.FunctionFragment.from(
+        signature.replace(/^function\s+/, "")
+      );
+      return {
+        selector: fragment.selector,
+        signature: fragment.format("sighash"),
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private addEntry(
+    entries: SelectorEntries,
+    selector: string,
+    signature: string
+  ): boolean {
+    const list = entries[selector] || (entries[selector] = []);
+    if (list.includes(signature)) {
+      return false;
+    }
+    list.push(signature);
+    return true;
+  }
+
+  private loadCustom(): void {
+    if (this.customLoaded || typeof window === "undefined") {
+      return;
+    }
+    this.customLoaded = true;
+
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.custom = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn("Failed to load selector database:", error);
+    }
+  }
+
+  private saveCustom(): void {
+    if (typeof window === "undefined") {
+      return;
+    }
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.custom));
+  }
+}
+
+export const selectorDatabase = SelectorDatabase.getInstance();
@@ -0,0 +1,364 @@
+import { ethers } from "ethers";
+import type { SafeMultisigConfirmationResponse } from "@safe-global/types-kit";
+
+// How a confirmation signature is checked by Safe checkNSignatures
+export type SignatureKind =
+  | "eip712" // v = 27/28, ECDSA over safeTxHash
+  | "eth_sign" // v > 30, ECDSA over prefixed safeTxHash
+  | "approved_hash" // v = 1, approveHash() stored on-chain
+  | "contract"; // v = 0, EIP-1271 isValidSignature
+
+export interface ConfirmationVerification {
+  owner: string; // Owner claimed by STS
+  kind: SignatureKind | null;
+  signer: string | null; // Address recovered from the signature
+  isOwner: boolean;
+  isValid: boolean;
+  error?: string;
+}
+
+export interface SignatureVerificationReport {
+  safeTxHash: string;
+  owners: string[];
+  threshold: number;
+  confirmations: ConfirmationVerification[];
+  validCount: number;
+}
+
+// Safe transaction fields needed to rebuild the EIP-712 preimage
+export interface SafeTxHashData {
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+  safeTxGas: string | number;
+  baseGas: string | number;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: string | number;
+}
+
+// Extract hashed transaction fields from STS response
+export function getSafeTxHashData(
+  tx: Omit<SafeTxHashData, "data" | "refundReceiver"> & {
+    data?: string;
+    refundReceiver?: string;
+  }
+): SafeTxHashData {
+  return {
+    to: tx.to,
+    value: tx.value,
+    data: tx.data || "0x",
+    operation: tx.operation,
+    safeTxGas: tx.safeTxGas,
+    baseGas: tx.baseGas,
+    gasPrice: tx.gasPrice,
+    gasToken: tx.gasToken,
+    refundReceiver: tx.refundReceiver || ethers.ZeroAddress,
+    nonce: tx.nonce,
+  };
+}
+
+// Dynamic part of a standalone contract signature: {r: owner, s: offset, v: 0}
+// followed by the signature data length and bytes at the given offset
+export function extractContractSignatureData(signature: string): string {
+  const bytes = ethers.getBytes(signature);
+  if (bytes.length < 65 || bytes[64] !== 0) {
+    throw new Error("Not a contract signature");
+  }
+
+  const offset = Number(BigInt(ethers.hexlify(bytes.slice(32, 64))));
+  if (bytes.length < offset + 32) {
+    throw new Error("Contract signature data is missing");
+  }
+
+  const length = Number(
+    BigInt(ethers.hexlify(bytes.slice(offset, offset + 32)))
+  );
+  if (bytes.length < offset + 32 + length) {
+    throw new Error("Contract signature data is truncated");
+  }
+
+  return ethers.hexlify(bytes.slice(offset + 32, offset + 32 + length));
+}
+
+// Pre-validated signature {r: owner, s: 0, v: 1} accepted for approved hashes
+export function buildApprovedHashSignature(owner: string): string {
+  return ethers.concat([
+    ethers.zeroPadValue(owner, 32),
+    ethers.ZeroHash,
+    "0x01",
+  ]);
+}
+
+const SAFE_VERIFICATION_ABI = [
+  "function getOwners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+  "function approvedHashes(address owner, bytes32 hash) view returns (uint256)",
+  "function encodeTransactionData(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, uint256 _nonce) view returns (bytes)",
+];
+
+// Safe 1.3.0/1.4.1 checkNSignatures only calls the legacy bytes variant
+const EIP1271_LEGACY_ABI = [
+  "function isValidSignature(bytes _data, bytes _signature) view returns (bytes4)",
+];
+
+const EIP1271_LEGACY_MAGIC_VALUE = "0x20c13b0b";
+
+// Verifies STS confirmations the same way Safe execTransaction does
+export class SignatureVerifier {
+  private provider: ethers.Provider;
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  async verifyConfirmations(
+    safeAddress: string,
+    safeTxHash: string,
+    confirmations: SafeMultisigConfirmationResponse[],
+    txData?: SafeTxHashData
+  ): Promise<SignatureVerificationReport> {
+    const safeContract = new ethers.Contract(
+      safeAddress,
+      SAFE_VERIFICATION_ABI,
+      this.provider
+    );
+
+    const [owners, threshold]: [string[], bigint] = await Promise.all([
+      safeContract.getOwners(),
+      safeContract.getThreshold(),
+    ]);
+    const ownersLower = owners.map((o) => o.toLowerCase());
+
+    // Preimage is only needed by legacy contract signature validators
+    let preimage: string | null = null;
+    if (txData && confirmations.some((c) => this.isContractConfirmation(c))) {
+      preimage = await this.getTransactionPreimage(safeContract, txData);
+      if (preimage && ethers.keccak256(preimage) !== safeTxHash) {
+        console.warn("Transaction data does not match safeTxHash");
+        preimage = null;
+      }
+    }
+
+    const results: ConfirmationVerification[] = [];
+    for (const confirmation of confirmations) {
+      const result = await this.verifyConfirmation(
+        safeContract,
+        safeTxHash,
+        confirmation,
+        preimage
+      );
+      result.isOwner =
+        result.signer !== null && ownersLower.includes(result.signer);
+      if (result.isValid && !result.isOwner) {
+        result.isValid = false;
+        result.error = "Signer is not a current owner of the Safe";
+      }
+      results.push(result);
+    }
+
+    // Safe counts every owner once
+    const validSigners = new Set(
+      results.filter((r) => r.isValid).map((r) => r.signer)
+    );
+
+    console.log("Signature verification:", {
+      safeTxHash,
+      total: results.length,
+      valid: validSigners.size,
+      threshold: Number(threshold),
+    });
+
+    return {
+      safeTxHash,
+      owners,
+      threshold: Number(threshold),
+      confirmations: results,
+      validCount: validSigners.size,
+    };
+  }
+
+  // Owners that approved the hash on-chain via approveHash()
+  async getOnChainApprovals(
+    safeAddress: string,
+    safeTxHash: string,
+    owners: string[]
+  ): Promise<string[]> {
+    const safeContract = new ethers.Contract(
+      safeAddress,
+      SAFE_VERIFICATION_ABI,
+      this.provider
+    );
+
+    const approvals: bigint[] = await Promise.all(
+      owners.map((owner) => safeContract.approvedHashes(owner, safeTxHash))
+    );
+
+    return owners.filter((_, index) => approvals[index] !== 0n);
+  }
+
+  private async verifyConfirmation(
+    safeContract: ethers.Contract,
+    safeTxHash: string,
+    confirmation: SafeMultisigConfirmationResponse,
+    preimage: string | null
+  ): Promise<ConfirmationVerification> {
+    const owner = confirmation.owner.toLowerCase();
+    const result: ConfirmationVerification = {
+      owner: confirmation.owner,
+      kind: null,
+      signer: null,
+      isOwner: false,
+      isValid: false,
+    };
+
+    try {
+      const signature = this.getSignatureBytes(confirmation);
+      if (signature.length < 65) {
+        throw new Error("Signature is shorter than 65 bytes");
+      }
+
+      const r = ethers.hexlify(signature.slice(0, 32));
+      const s = ethers.hexlify(signature.slice(32, 64));
+      const v = signature[64];
+
+      if (v === 0) {
+        result.kind = "contract";
+        result.signer = ethers
+          .getAddress(ethers.dataSlice(r, 12))
+          .toLowerCase();
+        result.isValid = await this.verifyContractSignature(
+          result.signer,
+          ethers.hexlify(signature),
+          preimage
+        );
+        if (!result.isValid) {
+          result.error = "Contract owner rejected the signature (EIP-1271)";
+        }
+      } else if (v === 1) {
+        result.kind = "approved_hash";
+        result.signer = ethers
+          .getAddress(ethers.dataSlice(r, 12))
+          .toLowerCase();
+        const approved: bigint = await safeContract.approvedHashes(
+          result.signer,
+          safeTxHash
+        );
+        result.isValid = approved !== 0n;
+        if (!result.isValid) {
+          result.error = "Hash is not approved on-chain by this owner";
+        }
+      } else if (v > 30) {
+        result.kind = "eth_sign";
+        result.signer = ethers
+          .recoverAddress(ethers.hashMessage(ethers.getBytes(safeTxHash)), {
+            r,
+            s,
+            v: v - 4,
+          })
+          .toLowerCase();
+        result.isValid = true;
+      } else {
+        result.kind = "eip712";
+        result.signer = ethers
+          .recoverAddress(safeTxHash, { r, s, v })
+          .toLowerCase();
+        result.isValid = true;
+      }
+
+      if (result.isValid && result.signer !== owner) {
+        result.isValid = false;
+        result.error = `Signature recovers to ${result.signer}, not to the confirming owner`;
+      }
+    } catch (error: any) {
+      result.isValid = false;
+      result.error = error.message || "Invalid signature";
+    }
+
+    return result;
+  }
+
+  // STS stores approved hash confirmations without a signature
+  private getSignatureBytes(
+    confirmation: SafeMultisigConfirmationResponse
+  ): Uint8Array {
+    if (confirmation.signature && confirmation.signature !== "0x") {
+      return ethers.getBytes(confirmation.signature);
+    }
+
+    if (confirmation.signatureType === "APPROVED_HASH") {
+      return ethers.getBytes(buildApprovedHashSignature(confirmation.owner));
+    }
+
+    throw new Error("Confirmation has no signature");
+  }
+
+  // Kind comes from the v byte, STS signatureType labels are not trusted
+  private isContractConfirmation(
+    confirmation: SafeMultisigConfirmationResponse
+  ): boolean {
+    try {
+      const signature = this.getSignatureBytes(confirmation);
+      return signature.length >= 65 && signature[64] === 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private async getTransactionPreimage(
+    safeContract: ethers.Contract,
+    txData: SafeTxHashData
+  ): Promise<string | null> {
+    try {
+      return await safeContract.encodeTransactionData(
+        txData.to,
+        txData.value,
+        txData.data || "0x",
+        txData.operation,
+        txData.safeTxGas,
+        txData.baseGas,
+        txData.gasPrice,
+        txData.gasToken,
+        txData.refundReceiver,
+        txData.nonce
+      );
+    } catch (error) {
+      console.warn("Failed to encode transaction data:", error);
+      return null;
+    }
+  }
+
+  private async verifyContractSignature(
+    contractAddress: string,
+    signature: string,
+    preimage: string | null
+  ): Promise<boolean> {
+    if (!preimage) {
+      throw new Error(
+        "Transaction data is required to verify a contract signature"
+      );
+    }
+
+    const contractSignature = extractContractSignatureData(signature);
+
+    const validator = new ethers.Contract(
+      contractAddress,
+      EIP1271_LEGACY_ABI,
+      this.provider
+    );
+
+    try {
+      const result: string = await validator.isValidSignature(
+        preimage,
+        contractSignature
+      );
+      return result.toLowerCase() === EIP1271_LEGACY_MAGIC_VALUE;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export default SignatureVerifier;
@@ -0,0 +1,195 @@
+import { ethers } from "ethers";
+import { EventDecoder } from "./event-decoder";
+
+// Call executed by the Safe, same fields as in the Safe transaction
+export interface SimulationRequest {
+  to: string;
+  value: bigint;
+  data: string;
+  operation: number; // 0 = Call, 1 = DelegateCall
+}
+
+export interface SimulationLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  gasUsed: bigint; // Gas used by the inner call, without Safe overhead
+  returnData: string;
+  revertReason?: string;
+  logs: SimulationLog[];
+  logsAvailable: boolean; // Node supports debug_traceCall for this operation
+}
+
+const FALLBACK_HANDLER_ABI = [
+  "function simulate(address targetContract, bytes calldataPayload) returns (bytes response)",
+];
+
+const SIMULATE_TX_ACCESSOR_ABI = [
+  "function simulate(address to, uint256 value, bytes data, uint8 operation) returns (uint256 estimate, bool success, bytes returnData)",
+];
+
+const ERROR_SELECTOR = "0x08c379a0"; // Error(string)
+const PANIC_SELECTOR = "0x4e487b71"; // Panic(uint256)
+
+// Human readable reason from revert data, custom errors are looked up in
+// known ABIs with the reverting target preferred
+export function decodeRevertReason(data: string, target?: string): string {
+  if (!data || data === "0x") {
+    return "Reverted without reason";
+  }
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const selector = data.slice(0, 10).toLowerCase();
+
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [reason] = coder.decode(["string"], ethers.dataSlice(data, 4));
+      return reason;
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(["uint256"], ethers.dataSlice(data, 4));
+      return `Panic(0x${code.toString(16)})`;
+    }
+  } catch (error) {
+    console.warn("Failed to decode revert data:", error);
+  }
+
+  const customError = EventDecoder.decodeError(data, target);
+  if (customError) {
+    return EventDecoder.formatError(customError);
+  }
+
+  return `Custom error ${selector}`;
+}
+
+/**
+ * Simulates Safe transactions without signatures: the Safe fallback handler
+ * runs SimulateTxAccessor through simulateAndRevert in an eth_call
+ */
+export class TransactionSimulator {
+  private provider: ethers.JsonRpcApiProvider;
+  private simulateTxAccessor: string;
+
+  constructor(provider: ethers.JsonRpcApiProvider, simulateTxAccessor: string) {
+    this.provider = provider;
+    this.simulateTxAccessor = simulateTxAccessor;
+  }
+
+  async simulate(
+    safeAddress: string,
+    request: SimulationRequest
+  ): Promise<SimulationResult> {
+    const accessorInterface = new ethers.Interface(SIMULATE_TX_ACCESSOR_ABI);
+    const handlerInterface = new ethers.Interface(FALLBACK_HANDLER_ABI);
+
+    const accessorCalldata = accessorInterface.encodeFunctionData("simulate", [
+      request.to,
+      request.value,
+      request.data || "0x",
+      request.operation,
+    ]);
+    const handlerCalldata = handlerInterface.encodeFunctionData("simulate", [
+      this.simulateTxAccessor,
+      accessorCalldata,
+    ]);
+
+    console.log("Simulating Safe transaction:", {
+      safe: safeAddress,
+      to: request.to,
+      operation: request.operation,
+    });
+
+    let rawResponse: string;
+    try {
+      rawResponse = await this.provider.call({
+        to: safeAddress,
+        data: handlerCalldata,
+      });
+    } catch (error: any) {
+      console.error("Simulation call error:", error);
+      throw new Error(
+        "Simulation failed. The Safe fallback handler must support simulate()"
+      );
+    }
+
+    const [response] = handlerInterface.decodeFunctionResult(
+      "simulate",
+      rawResponse
+    );
+    const [estimate, success, returnData] =
+      accessorInterface.decodeFunctionResult("simulate", response);
+
+    const result: SimulationResult = {
+      success,
+      gasUsed: estimate,
+      returnData,
+      logs: [],
+      logsAvailable: false,
+    };
+
+    if (!success) {
+      result.revertReason = decodeRevertReason(returnData, request.to);
+    }
+
+    // Logs of reverted frames are dropped by tracers, trace the plain call instead
+    if (success && request.operation === 0) {
+      const logs = await this.traceLogs(safeAddress, request);
+      if (logs) {
+        result.logs = logs;
+        result.logsAvailable = true;
+      }
+    }
+
+    console.log("Simulation result:", {
+      success: result.success,
+      gasUsed: result.gasUsed.toString(),
+      revertReason: result.revertReason,
+      logs: result.logs.length,
+    });
+
+    return result;
+  }
+
+  // Collect logs via debug_traceCall, null if the node does not support it
+  private async traceLogs(
+    safeAddress: string,
+    request: SimulationRequest
+  ): Promise<SimulationLog[] | null> {
+    try {
+      const trace = await this.provider.send("debug_traceCall", [
+        {
+          from: safeAddress,
+          to: request.to,
+          value: ethers.toQuantity(request.value),
+          data: request.data || "0x",
+        },
+        "latest",
+        { tracer: "callTracer", tracerConfig: { withLog: true } },
+      ]);
+
+      const logs: SimulationLog[] = [];
+      const collect = (frame: any) => {
+        (frame.logs || []).forEach((log: any) =>
+          logs.push({
+            address: log.address,
+            topics: log.topics || [],
+            data: log.data || "0x",
+          })
+        );
+        (frame.calls || []).forEach(collect);
+      };
+      collect(trace);
+
+      return logs;
+    } catch (error) {
+      console.log("debug_traceCall not available, logs skipped");
+      return null;
+    }
+  }
+}
+
+export default TransactionSimulator;
@@ -0,0 +1,114 @@
+/**
+ * ERC20 decimals()/symbol() of call targets, used to enter and show
+ * amounts in token units instead of raw integers
+ */
+
+import { ethers } from "ethers";
+import { ABIInput } from "./contract-types";
+import { DecodedCall } from "./calldata-decoder";
+
+export interface TokenMetadata {
+  address: string;
+  decimals: number;
+  symbol: string;
+}
+
+const TOKEN_METADATA_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+];
+
+// Parameter names of ERC20 amounts: amount, value, wad, amountIn, allowance...
+const AMOUNT_NAME = /amount|^_?value$|^_?wad$|balance|allowance|quantity/i;
+
+/**
+ * Unsigned integer that most likely holds a token amount, other integers
+ * (ids, deadlines) stay raw unless the user switches them
+ */
+export function isTokenAmountInput(input: Pick<ABIInput, "name" | "type">) {
+  return /^uint\d*$/.test(input.type) && AMOUNT_NAME.test(input.name);
+}
+
+export class TokenMetadataReader {
+  private provider: ethers.Provider;
+  private cache: Map<string, Promise<TokenMetadata | null>> = new Map();
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Null for contracts that do not expose both decimals() and symbol().
+   * Only found metadata stays cached, failed lookups are retried next time
+   */
+  read(address: string): Promise<TokenMetadata | null> {
+    const key = address.toLowerCase();
+    let metadata = this.cache.get(key);
+    if (!metadata) {
+      const loading = this.load(address).then((result) => {
+        if (!result && this.cache.get(key) === loading) {
+          this.cache.delete(key);
+        }
+        return result;
+      });
+      metadata = loading;
+      this.cache.set(key, metadata);
+    }
+    return metadata;
+  }
+
+  /**
+   * Adds token unit values to amount arguments of ERC20 calls, nested
+   * MultiSend calls included
+   */
+  async annotateCall(call: DecodedCall): Promise<DecodedCall> {
+    const nestedCalls = call.nestedCalls
+      ? await Promise.all(
+          call.nestedCalls.map((nested) => this.annotateCall(nested))
+        )
+      : undefined;
+
+    const amountArgs = call.args.filter((arg) => isTokenAmountInput(arg));
+    const token =
+      call.signature && amountArgs.length > 0 ? await this.read(call.to) : null;
+
+    return {
+      ...call,
+      nestedCalls,
+      args: call.args.map((arg) => {
+        if (!token || !isTokenAmountInput(arg)) return arg;
+        try {
+          return {
+            ...arg,
+            tokenValue: `${ethers.formatUnits(arg.value, token.decimals)} ${
+              token.symbol
+            }`,
+          };
+        } catch (error) {
+          return arg;
+        }
+      }),
+    };
+  }
+
+  private async load(address: string): Promise<TokenMetadata | null> {
+    try {
+      const token = new ethers.Contract(
+        address,
+        TOKEN_METADATA_ABI,
+        this.provider
+      );
+      const [decimals, symbol] = await Promise.all([
+        token.decimals(),
+        token.symbol(),
+      ]);
+      console.log(`Token metadata for ${address}:`, { decimals, symbol });
+      return { address, decimals: Number(decimals), symbol };
+    } catch (error) {
+      console.log(`No ERC20 metadata for ${address}`);
+      return null;
+    }
+  }
+}
+
+export default TokenMetadataReader;
@@ -0,0 +1,106 @@
+/**
+ * Native coin and ERC20 transfers from the Safe, several recipients are
+ * paid out in one MultiSend transaction
+ */
+
+import { ethers } from "ethers";
+import { TRANSFER_SIGNATURE } from "./safe-assets";
+
+export interface TransferRequest {
+  tokenAddress: string | null; // Null for the native coin
+  recipient: string;
+  amount: bigint; // In the smallest unit of the token
+}
+
+// Total of one asset over all transfers compared to the Safe balance
+export interface TransferTotal {
+  tokenAddress: string | null;
+  symbol: string;
+  decimals: number;
+  amount: bigint;
+  balance: bigint;
+}
+
+/**
+ * Checks recipients and amounts, addresses come back checksummed
+ */
+export function validateTransfers(
+  transfers: TransferRequest[]
+): TransferRequest[] {
+  if (transfers.length === 0) {
+    throw new Error("Add at least one transfer");
+  }
+
+  return transfers.map((transfer, index) => {
+    const row = transfers.length > 1 ? `Transfer ${index + 1}: ` : "";
+
+    if (!ethers.isAddress(transfer.recipient)) {
+      throw new Error(`${row}invalid recipient address ${transfer.recipient}`);
+    }
+    if (transfer.amount <= 0n) {
+      throw new Error(`${row}amount must be greater than 0`);
+    }
+
+    return {
+      tokenAddress: transfer.tokenAddress
+        ? ethers.getAddress(transfer.tokenAddress)
+        : null,
+      recipient: ethers.getAddress(transfer.recipient),
+      amount: transfer.amount,
+    };
+  });
+}
+
+/**
+ * Sum of amounts per asset, keyed by lowercase token address or "native"
+ */
+export function sumTransfers(
+  transfers: TransferRequest[]
+): Map<string, { tokenAddress: string | null; amount: bigint }> {
+  const totals = new Map<
+    string,
+    { tokenAddress: string | null; amount: bigint }
+  >();
+
+  transfers.forEach((transfer) => {
+    const key = transfer.tokenAddress?.toLowerCase() || "native";
+    const total = totals.get(key) || {
+      tokenAddress: transfer.tokenAddress,
+      amount: 0n,
+    };
+    total.amount += transfer.amount;
+    totals.set(key, total);
+  });
+
+  return totals;
+}
+
+/**
+ * Call of the transfer, native coin goes as value with empty calldata
+ */
+export function toTransferCall(transfer: TransferRequest): {
+  contractAddress: string;
+  functionSignature: string;
+  functionParams: any[];
+  value: bigint;
+} {
+  if (!transfer.tokenAddress) {
+    return {
+      contractAddress: transfer.recipient,
+      functionSignature: "",
+      functionParams: [],
+      value: transfer.amount,
+    };
+  }
+
+  return {
+    contractAddress: transfer.tokenAddress,
+    functionSignature: TRANSFER_SIGNATURE,
+    functionParams: [transfer.recipient, transfer.amount],
+    value: 0n,
+  };
+}
+
+export function formatTransferTotal(total: TransferTotal): string {
+  return `${ethers.formatUnits(total.amount, total.decimals)} ${total.symbol}`;
+}
@@ -1,18 +1,47 @@
 import React, { useState, useEffect } from "react";
 import { ethers } from "ethers";
+import { OperationType } from "@safe-global/types-kit";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { useAccount, useWalletClient } from "wagmi";
 
 import SafeOnChain, {
   UniversalFunctionCall,
   SafeCreationForm,
+  SafeGasOptions,
   SafeConnectionForm as SafeConnectionFormData,
 } from "../lib/onchain";
-import { SafeManagement, ProposalsPage } from "../components";
+import { TokenMetadata } from "../lib/token-metadata";
+import {
+  SafeAsset,
+  TRANSFER_SIGNATURE,
+  getTokenContract,
+} from "../lib/safe-assets";
+import {
+  SafeManagement,
+  ProposalsPage,
+  SafeSettings,
+  TransferPanel,
+} from "../components";
 import { ParameterForm } from "../components/ParameterForm";
 import { ContractDropdown } from "../components/ContractDropdown";
+import { AbiImportForm } from "../components/AbiImportForm";
 import { FunctionDropdown } from "../components/FunctionDropdown";
+import { FunctionSelector } from "../components/FunctionSelector";
+import { SafeAssetsPanel } from "../components/SafeAssets";
 import { ContractInfo } from "../components/TokenInfo";
+import {
+  BatchBuilder,
+  BatchCallEntry,
+  BatchedCallsList,
+} from "../components/BatchBuilder";
+import {
+  GasRefundSettings,
+  GasParametersSummary,
+} from "../components/GasRefundSettings";
+import {
+  OperationSelector,
+  OperationOptions,
+} from "../components/OperationSelector";
 import SafeOffChain, { UniversalOperationResult } from "../lib/offchain";
 import { formatAddress, DEFAULT_SAFE_VERSION } from "../lib/safe-common";
 import { NETWORK_COLORS, getSupportedNetworks } from "../lib/constants";
@@ -72,6 +101,8 @@ const SafeMultisigApp: React.FC = () => {
 
   // Safe connection state
   const [showSafeManagement, setShowSafeManagement] = useState(false);
+  const [showSafeSettings, setShowSafeSettings] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
   const [predictedSafeAddress, setPredictedSafeAddress] = useState<string>("");
 
   // Universal transaction form state
@@ -88,6 +119,17 @@ const SafeMultisigApp: React.FC = () => {
   );
   const [selectedFunction, setSelectedFunction] =
     useState<ParsedFunction | null>(null);
+  // View/pure function called directly, outside of proposals
+  const [readFunction, setReadFunction] = useState<ParsedFunction | null>(null);
+  const [showReadContract, setShowReadContract] = useState<boolean>(false);
+  // ERC20 metadata of the selected contract for amounts in token units
+  const [selectedToken, setSelectedToken] = useState<TokenMetadata | null>(
+    null
+  );
+  // Function selected once the contract picked from Safe assets is loaded
+  const [pendingFunctionSignature, setPendingFunctionSignature] = useState<
+    string | null
+  >(null);
   const [structuredFormData, setStructuredFormData] =
     useState<FunctionFormData>({
       parameters: {},
@@ -95,6 +137,17 @@ const SafeMultisigApp: React.FC = () => {
     });
   const [useStructuredMode, setUseStructuredMode] = useState<boolean>(true);
 
+  // Calls queued for a MultiSend batch
+  const [batchCalls, setBatchCalls] = useState<BatchCallEntry[]>([]);
+
+  // safeTxGas, baseGas and refund parameters applied to created transactions
+  const [gasOptions, setGasOptions] = useState<SafeGasOptions>({});
+
+  // Call or DelegateCall for single (non-batched) transactions
+  const [operationOptions, setOperationOptions] = useState<OperationOptions>(
+    {}
+  );
+
   // Universal transaction creation result
   const [universalResult, setUniversalResult] =
     useState<UniversalOperationResult | null>(null);
@@ -106,6 +159,8 @@ const SafeMultisigApp: React.FC = () => {
   // Contract loading state
   const [contractsLoading, setContractsLoading] = useState<boolean>(false);
   const [contractsError, setContractsError] = useState<string | null>(null);
+  const [showAbiImport, setShowAbiImport] = useState<boolean>(false);
+  const [contractsRefreshKey, setContractsRefreshKey] = useState<number>(0);
 
   // Loading state
   const [loading, setLoading] = useState<{ [key: string]: boolean }>({});
@@ -157,7 +212,7 @@ const SafeMultisigApp: React.FC = () => {
 
       // Initialize ContractRegistry for new network
       console.log("Initializing ContractRegistry for chainId:", network.id);
-      contractRegistry.initializeForChain(network.id);
+      contractRegistry.initializeForChain(network.id, network.provider);
 
       // Load contracts asynchronously
       loadContractsForNetwork();
@@ -252,6 +307,34 @@ const SafeMultisigApp: React.FC = () => {
     }
   }, [currentSection, safeInfo]);
 
+  // Load decimals/symbol when the selected contract is an ERC20 token
+  useEffect(() => {
+    setSelectedToken(null);
+    if (!selectedContract || !safeOnChain) return;
+
+    let cancelled = false;
+    safeOnChain.getTokenMetadata(selectedContract.address).then((token) => {
+      if (!cancelled) setSelectedToken(token);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedContract?.address, safeOnChain]);
+
+  // Runs after FunctionDropdown has reset the function for the new contract
+  useEffect(() => {
+    if (!pendingFunctionSignature || !selectedContract) return;
+
+    const func = selectedContract.parsedFunctions.find(
+      (f) => f.signature === pendingFunctionSignature
+    );
+    if (func) {
+      setSelectedFunction(func);
+      setPendingFunctionSignature(null);
+    }
+  }, [selectedContract, pendingFunctionSignature]);
+
   // Get highest nonce between onchain and offchain sources
   const getHighestNonce = async (
     safeOnChainInstance?: SafeOnChain
@@ -320,6 +403,35 @@ const SafeMultisigApp: React.FC = () => {
     setTimeout(() => setSuccess(""), 5000);
   };
 
+  // Select contract, proxies get the implementation ABI before functions load
+  const handleContractSelect = async (contract: ContractABI | null) => {
+    if (!contract) {
+      setSelectedContract(null);
+      return;
+    }
+
+    try {
+      setSelectedContract(await contractRegistry.resolveProxy(contract));
+    } catch (error) {
+      console.warn("Proxy detection failed:", error);
+      setSelectedContract(contract);
+    }
+  };
+
+  // Prefill ERC20 transfer proposal from the assets panel
+  const handleSendAsset = async (asset: SafeAsset) => {
+    try {
+      const contract = getTokenContract(asset);
+      setUseStructuredMode(true);
+      setContractsRefreshKey((key) => key + 1);
+      setPendingFunctionSignature(TRANSFER_SIGNATURE);
+      await handleContractSelect(contract);
+      showSuccess(`Enter recipient and ${asset.symbol} amount to transfer`);
+    } catch (error: any) {
+      showError(error.message);
+    }
+  };
+
   // Load contracts for current network
   const loadContractsForNetwork = async () => {
     setContractsLoading(true);
@@ -496,7 +608,9 @@ const SafeMultisigApp: React.FC = () => {
         selectedContract.address,
         selectedFunction,
         structuredFormData,
-        nextNonce
+        nextNonce,
+        gasOptions,
+        operationOptions
       );
 
       setUniversalResult(result);
@@ -509,6 +623,93 @@ const SafeMultisigApp: React.FC = () => {
     }
   };
 
+  // Build function call from manual input form
+  const buildManualFunctionCall = (): UniversalFunctionCall => {
+    if (!universalForm.contractAddress || !universalForm.functionSignature) {
+      throw new Error("Please fill contract address and function signature");
+    }
+
+    // Parse function parameters from signature
+    const paramTypes =
+      universalForm.functionSignature
+        .split("(")[1]
+        ?.split(")")[0]
+        ?.split(",")
+        ?.map((p) => p.trim())
+        ?.filter((p) => p.length > 0) || [];
+
+    const paramValues = universalForm.functionParams.slice(
+      0,
+      paramTypes.length
+    );
+
+    // Convert parameters to correct types
+    const convertedParams = paramValues.map((value, index) => {
+      const paramType = paramTypes[index];
+      if (!paramType) return value;
+
+      // Clean value from spaces
+      const cleanValue = value.trim();
+      if (!cleanValue) return value;
+
+      try {
+        if (paramType.includes("uint") || paramType.includes("int")) {
+          // For numbers - parse as BigInt
+          if (cleanValue.includes(".")) {
+            // If has decimals, use parseUnits
+            return ethers.parseUnits(cleanValue, 18);
+          } else {
+            // Whole number
+            return ethers.parseUnits(cleanValue, 0);
+          }
+        }
+        if (paramType === "address") {
+          return ethers.getAddress(cleanValue); // Validate and format address
+        }
+        if (paramType === "bool") {
+          return cleanValue.toLowerCase() === "true";
+        }
+        // For string, bytes and others leave as is
+        return cleanValue;
+      } catch (error) {
+        console.warn(`Parameter ${index} conversion error: ${error}`);
+        return cleanValue;
+      }
+    });
+
+    // Convert ETH to wei (BigInt)
+    let valueInWei: bigint = 0n;
+    if (
+      universalForm.ethValue &&
+      universalForm.ethValue !== "0" &&
+      universalForm.ethValue !== ""
+    ) {
+      try {
+        valueInWei = ethers.parseEther(universalForm.ethValue.toString());
+        console.log(
+          "Converting user ETH input to wei (manual mode):",
+          universalForm.ethValue,
+          "→",
+          valueInWei.toString()
+        );
+      } catch (parseError) {
+        console.error(
+          "ETH value parsing error (manual mode):",
+          universalForm.ethValue,
+          parseError
+        );
+        throw new Error(`Invalid ETH value format: ${universalForm.ethValue}`);
+      }
+    }
+
+    return {
+      contractAddress: universalForm.contractAddress,
+      functionSignature: universalForm.functionSignature,
+      functionParams: convertedParams,
+      value: valueInWei,
+    };
+  };
+
   // Creating universal transaction hash
   const handleCreateUniversalHash = async () => {
     if (!safeOnChain || !safeInfo) {
@@ -520,91 +721,7 @@ const SafeMultisigApp: React.FC = () => {
     setUniversalResult(null);
 
     try {
-      if (!universalForm.contractAddress || !universalForm.functionSignature) {
-        throw new Error("Please fill contract address and function signature");
-      }
-
-      // Parse function parameters from signature
-      const paramTypes =
-        universalForm.functionSignature
-          .split("(")[1]
-          ?.split(")")[0]
-          ?.split(",")
-          ?.map((p) => p.trim())
-          ?.filter((p) => p.length > 0) || [];
-
-      const paramValues = universalForm.functionParams.slice(
-        0,
-        paramTypes.length
-      );
-
-      // Convert parameters to correct types
-      const convertedParams = paramValues.map((value, index) => {
-        const paramType = paramTypes[index];
-        if (!paramType) return value;
-
-        // Clean value from spaces
-        const cleanValue = value.trim();
-        if (!cleanValue) return value;
-
-        try {
-          if (paramType.includes("uint") || paramType.includes("int")) {
-            // For numbers - parse as BigInt
-            if (cleanValue.includes(".")) {
-              // If has decimals, use parseUnits
-              return ethers.parseUnits(cleanValue, 18);
-            } else {
-              // Whole number
-              return ethers.parseUnits(cleanValue, 0);
-            }
-          }
-          if (paramType === "address") {
-            return ethers.getAddress(cleanValue); // Validate and format address
-          }
-          if (paramType === "bool") {
-            return cleanValue.toLowerCase() === "true";
-          }
-          // For string, bytes and others leave as is
-          return cleanValue;
-        } catch (error) {
-          console.warn(`Parameter ${index} conversion error: ${error}`);
-          return cleanValue;
-        }
-      });
-
-      // Convert ETH to wei (BigInt)
-      let valueInWei: bigint = 0n;
-      if (
-        universalForm.ethValue &&
-        universalForm.ethValue !== "0" &&
-        universalForm.ethValue !== ""
-      ) {
-        try {
-          valueInWei = ethers.parseEther(universalForm.ethValue.toString());
-          console.log(
-            "Converting user ETH input to wei (manual mode):",
-            universalForm.ethValue,
-            "→",
-            valueInWei.toString()
-          );
-        } catch (parseError) {
-          console.error(
-            "ETH value parsing error (manual mode):",
-            universalForm.ethValue,
-            parseError
-          );
-          throw new Error(
-            `Invalid ETH value format: ${universalForm.ethValue}`
-          );
-        }
-      }
-
-      const functionCall: UniversalFunctionCall = {
-        contractAddress: universalForm.contractAddress,
-        functionSignature: universalForm.functionSignature,
-        functionParams: convertedParams,
-        value: valueInWei,
-      };
+      const functionCall = buildManualFunctionCall();
 
       console.log("Creating universal transaction hash for:", functionCall);
 
@@ -613,8 +730,9 @@ const SafeMultisigApp: React.FC = () => {
 
       // Create transaction hash through SafeOnChain
       const result = await safeOnChain.createUniversalTransactionHash(
-        functionCall,
-        nextNonce
+        { ...functionCall, ...operationOptions },
+        nextNonce,
+        gasOptions
       );
 
       setUniversalResult({
@@ -637,6 +755,100 @@ const SafeMultisigApp: React.FC = () => {
     setLoadingState("universalHash", false);
   };
 
+  // Batches run through MultiSendCallOnly which rejects delegatecalls
+  const isDelegateCallSelected = () =>
+    operationOptions.operation === OperationType.DelegateCall;
+
+  // Add current ABI mode call to batch
+  const handleAddStructuredToBatch = () => {
+    if (!safeOnChain || !selectedContract || !selectedFunction) {
+      showError("Please select contract and function");
+      return;
+    }
+
+    if (isDelegateCallSelected()) {
+      showError("DelegateCall cannot be batched. Switch operation to Call");
+      return;
+    }
+
+    try {
+      const functionCall = safeOnChain.buildStructuredFunctionCall(
+        selectedContract.address,
+        selectedFunction,
+        structuredFormData
+      );
+      setBatchCalls((prev) => [
+        ...prev,
+        {
+          label: `${selectedContract.name}.${selectedFunction.signature}`,
+          functionCall,
+        },
+      ]);
+      setUniversalResult(null);
+      showSuccess(`Added ${selectedFunction.signature} to batch`);
+    } catch (error: any) {
+      console.error("Add to batch error:", error);
+      showError(`Add to batch error: ${error.message}`);
+    }
+  };
+
+  // Add current manual mode call to batch
+  const handleAddManualToBatch = () => {
+    if (isDelegateCallSelected()) {
+      showError("DelegateCall cannot be batched. Switch operation to Call");
+      return;
+    }
+
+    try {
+      const functionCall = buildManualFunctionCall();
+      setBatchCalls((prev) => [
+        ...prev,
+        {
+          label: functionCall.functionSignature.split("(")[0],
+          functionCall,
+        },
+      ]);
+      setUniversalResult(null);
+      showSuccess(`Added ${functionCall.functionSignature} to batch`);
+    } catch (error: any) {
+      console.error("Add to batch error:", error);
+      showError(`Add to batch error: ${error.message}`);
+    }
+  };
+
+  // Creating MultiSend batch transaction hash
+  const handleCreateBatchHash = async () => {
+    if (!safeOnChain || !safeInfo) {
+      showError("Safe not connected");
+      return;
+    }
+
+    setLoadingState("batchHash", true);
+    setUniversalResult(null);
+    setSignatureResult(null);
+
+    try {
+      const nextNonce = await getHighestNonce();
+      console.log("Using next nonce for batch transaction:", nextNonce);
+
+      const result = await safeOnChain.createBatchTransactionHash(
+        batchCalls.map((entry) => entry.functionCall),
+        nextNonce,
+        gasOptions
+      );
+
+      setUniversalResult(result);
+      showSuccess(
+        `Batch transaction hash created for ${batchCalls.length} calls!`
+      );
+    } catch (error: any) {
+      console.error("Batch transaction creation error:", error);
+      showError(`Batch creation error: ${error.message}`);
+    } finally {
+      setLoadingState("batchHash", false);
+    }
+  };
+
   // Helper function for sending signature to STS
   const sendSignatureToSTS = async (
     transactionHash: string,
@@ -698,6 +910,9 @@ const SafeMultisigApp: React.FC = () => {
       showSuccess("Proposal created successfully!");
 
       // Clear form state after successful proposal creation
+      if (universalResult?.batchedCalls) {
+        setBatchCalls([]);
+      }
       setUniversalForm({
         contractAddress: "",
         functionSignature: "",
@@ -706,6 +921,11 @@ const SafeMultisigApp: React.FC = () => {
       });
       setUniversalResult(null);
       setSignatureResult(null);
+      // Untrusted delegatecall acknowledgement is not reused for the next proposal
+      setOperationOptions((prev) => ({
+        ...prev,
+        untrustedDelegateCallTarget: undefined,
+      }));
 
       // Clear new states
       setSelectedContract(null);
@@ -725,6 +945,38 @@ const SafeMultisigApp: React.FC = () => {
     }
   };
 
+  // Sign prepared Safe transaction and propose it to STS in one step
+  // stayOnPage keeps the form open when more proposals follow
+  const handleSignAndProposeResult = async (
+    result: UniversalOperationResult,
+    origin: string,
+    options?: { stayOnPage?: boolean }
+  ) => {
+    if (!network || !safeOnChain || !safeOffChain || !safeInfo) {
+      throw new Error("Wallet or Safe not connected");
+    }
+
+    const userAddress = await network.signer.getAddress();
+    const signedSafeTransaction = await safeOnChain
+      .getSafeSdk()
+      .signTransaction(result.safeTransaction);
+
+    await safeOffChain.proposeUniversalResult(
+      safeInfo.address,
+      { ...result, safeTransaction: signedSafeTransaction },
+      userAddress,
+      origin
+    );
+
+    showSuccess("Proposal created successfully!");
+    if (options?.stayOnPage) return;
+
+    setTimeout(() => {
+      console.log('Switching to "My Proposals" section - proposal created');
+      setCurrentSection(AppSection.PROPOSALS);
+    }, 1500);
+  };
+
   // Transaction hash signing
   const handleSignTransactionHash = async () => {
     if (!universalResult || !network || !safeOnChain || !safeInfo) {
@@ -876,6 +1128,8 @@ const SafeMultisigApp: React.FC = () => {
     setSafeInfo(null);
     setUniversalResult(null);
     setSignatureResult(null);
+    setBatchCalls([]);
+    setShowSafeSettings(false);
     setPredictedSafeAddress("");
     // Clear form on Safe disconnect
     setUniversalForm({
@@ -1018,6 +1272,18 @@ const SafeMultisigApp: React.FC = () => {
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-xl font-semibold">Safe Information</h2>
                   <div className="flex gap-2">
+                    <button
+                      onClick={() => setShowTransfer((prev) => !prev)}
+                      className="px-4 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors text-sm"
+                    >
+                      {showTransfer ? "Hide Transfer" : "Transfer"}
+                    </button>
+                    <button
+                      onClick={() => setShowSafeSettings((prev) => !prev)}
+                      className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+                    >
+                      {showSafeSettings ? "Hide Settings" : "Settings"}
+                    </button>
                     <button
                       onClick={() => {
                         setCurrentSection(AppSection.CREATE_PROPOSAL);
@@ -1077,6 +1343,40 @@ const SafeMultisigApp: React.FC = () => {
               </div>
             )}
 
+            {/* Safe Settings */}
+            {network && safeInfo && safeOnChain && showSafeSettings && (
+              <SafeSettings
+                safeOnChain={safeOnChain}
+                owners={safeInfo.owners}
+                threshold={safeInfo.threshold}
+                userAddress={address}
+                getNextNonce={() => getHighestNonce()}
+                onSignAndPropose={handleSignAndProposeResult}
+                className="mb-8"
+              />
+            )}
+
+            {/* Native and ERC20 transfers */}
+            {network && safeInfo && safeOnChain && showTransfer && (
+              <TransferPanel
+                safeOnChain={safeOnChain}
+                safeAddress={safeInfo.address}
+                getNextNonce={() => getHighestNonce()}
+                onSignAndPropose={handleSignAndProposeResult}
+                className="mb-8"
+              />
+            )}
+
+            {/* Safe Assets */}
+            {network && safeInfo && safeOnChain && (
+              <SafeAssetsPanel
+                safeOnChain={safeOnChain}
+                safeAddress={safeInfo.address}
+                onSend={handleSendAsset}
+                className="mb-8"
+              />
+            )}
+
             {/* Safe Management */}
             {network &&
               currentSection === AppSection.CREATE_PROPOSAL &&
@@ -1132,17 +1432,52 @@ const SafeMultisigApp: React.FC = () => {
                         : "Create hash for any smart contract function call. Specify contract address, function signature and parameters."}
                     </p>
 
+                    <OperationSelector
+                      targetAddress={
+                        useStructuredMode
+                          ? selectedContract?.address || ""
+                          : universalForm.contractAddress
+                      }
+                      value={operationOptions}
+                      onChange={setOperationOptions}
+                    />
+
+                    <GasRefundSettings
+                      value={gasOptions}
+                      onChange={setGasOptions}
+                    />
+
                     {useStructuredMode ? (
                       /* New UI with Dropdown */
                       <div className="space-y-6">
                         {/* Dropdown for contract selection */}
                         <ContractDropdown
-                          onContractSelect={setSelectedContract}
+                          onContractSelect={handleContractSelect}
                           selectedContract={selectedContract}
                           isLoading={contractsLoading}
                           error={contractsError}
+                          refreshKey={contractsRefreshKey}
                         />
 
+                        {/* Custom ABI import */}
+                        {showAbiImport ? (
+                          <AbiImportForm
+                            onImported={(contract) => {
+                              setShowAbiImport(false);
+                              setContractsRefreshKey((key) => key + 1);
+                              handleContractSelect(contract);
+                            }}
+                            onCancel={() => setShowAbiImport(false)}
+                          />
+                        ) : (
+                          <button
+                            onClick={() => setShowAbiImport(true)}
+                            className="text-sm text-purple-600 hover:text-purple-800 underline"
+                          >
+                            Contract not listed? Import its ABI
+                          </button>
+                        )}
+
                         {/* Dropdown for function selection */}
                         <FunctionDropdown
                           contractAddress={selectedContract?.address || null}
@@ -1158,12 +1493,41 @@ const SafeMultisigApp: React.FC = () => {
                           />
                         )}
 
+                        {/* Read-only calls */}
+                        {selectedContract && safeOnChain && (
+                          <div>
+                            <button
+                              onClick={() =>
+                                setShowReadContract(!showReadContract)
+                              }
+                              className="text-sm text-blue-600 hover:text-blue-800 underline"
+                            >
+                              {showReadContract
+                                ? "Hide read functions"
+                                : "🔍 Read contract (view/pure functions)"}
+                            </button>
+                            {showReadContract && (
+                              <div className="mt-4">
+                                <FunctionSelector
+                                  mode="call"
+                                  contractAddress={selectedContract.address}
+                                  onFunctionSelect={setReadFunction}
+                                  selectedFunction={readFunction}
+                                  safeOnChain={safeOnChain}
+                                  safeAddress={safeInfo?.address}
+                                />
+                              </div>
+                            )}
+                          </div>
+                        )}
+
                         {/* Function parameters */}
                         {selectedFunction && (
                           <ParameterForm
                             selectedFunction={selectedFunction}
                             onFormChange={setStructuredFormData}
                             formData={structuredFormData}
+                            token={selectedToken}
                           />
                         )}
 
@@ -1207,6 +1571,13 @@ const SafeMultisigApp: React.FC = () => {
                                 "🔐 Create Transaction Hash"
                               )}
                             </button>
+
+                            <button
+                              onClick={handleAddStructuredToBatch}
+                              className="mt-3 w-full px-6 py-2 rounded-lg font-medium transition-colors bg-indigo-100 text-indigo-700 hover:bg-indigo-200"
+                            >
+                              ➕ Add to Batch
+                            </button>
                           </div>
                         )}
 
@@ -1257,8 +1628,32 @@ const SafeMultisigApp: React.FC = () => {
                                     {universalResult.transactionDetails.nonce}
                                   </div>
                                 </div>
+
+                                {universalResult.transactionDetails
+                                  .operation === OperationType.DelegateCall && (
+                                  <div>
+                                    <label className="font-medium text-gray-700">
+                                      Operation:
+                                    </label>
+                                    <div className="mt-1 p-2 bg-red-50 border border-red-200 rounded text-red-800 font-medium">
+                                      DelegateCall
+                                    </div>
+                                  </div>
+                                )}
                               </div>
 
+                              {universalResult.batchedCalls && (
+                                <BatchedCallsList
+                                  calls={universalResult.batchedCalls}
+                                />
+                              )}
+
+                              <GasParametersSummary
+                                safeTransaction={
+                                  universalResult.safeTransaction
+                                }
+                              />
+
                               <div>
                                 <label className="font-medium text-gray-700">
                                   Encoded Data:
@@ -1465,6 +1860,14 @@ const SafeMultisigApp: React.FC = () => {
                               : "Create Transaction Hash"}
                           </button>
 
+                          <button
+                            onClick={handleAddManualToBatch}
+                            disabled={!safeInfo}
+                            className="px-6 py-2 bg-indigo-100 text-indigo-700 rounded-lg hover:bg-indigo-200 disabled:opacity-50"
+                          >
+                            ➕ Add to Batch
+                          </button>
+
                           <button
                             onClick={resetUniversalForm}
                             className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
@@ -1520,8 +1923,32 @@ const SafeMultisigApp: React.FC = () => {
                                     {universalResult.transactionDetails.nonce}
                                   </div>
                                 </div>
+
+                                {universalResult.transactionDetails
+                                  .operation === OperationType.DelegateCall && (
+                                  <div>
+                                    <label className="font-medium text-gray-700">
+                                      Operation:
+                                    </label>
+                                    <div className="mt-1 p-2 bg-red-50 border border-red-200 rounded text-red-800 font-medium">
+                                      DelegateCall
+                                    </div>
+                                  </div>
+                                )}
                               </div>
 
+                              {universalResult.batchedCalls && (
+                                <BatchedCallsList
+                                  calls={universalResult.batchedCalls}
+                                />
+                              )}
+
+                              <GasParametersSummary
+                                safeTransaction={
+                                  universalResult.safeTransaction
+                                }
+                              />
+
                               <div>
                                 <label className="font-medium text-gray-700">
                                   Encoded Data:
@@ -1638,6 +2065,18 @@ const SafeMultisigApp: React.FC = () => {
                         )}
                       </div>
                     )}
+
+                    <BatchBuilder
+                      calls={batchCalls}
+                      onRemove={(index) =>
+                        setBatchCalls((prev) =>
+                          prev.filter((_, i) => i !== index)
+                        )
+                      }
+                      onClear={() => setBatchCalls([])}
+                      onCreateBatch={handleCreateBatchHash}
+                      loading={loading.batchHash}
+                    />
                   </div>
                 </div>
               )}